@@ -1,6 +1,6 @@
 /**
  * StoryChat API - Cloudflare Worker with Hono
- * Routes: Auth, Stories, Chapters, Credits, Admin
+ * Routes: Auth, Stories, Chapters, Credits, Subscription, Payments, Media, Studio, Admin
  */
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
@@ -10,18 +10,48 @@ import authRoutes from './routes/auth';
 import storyRoutes from './routes/stories';
 import chapterRoutes from './routes/chapters';
 import creditRoutes from './routes/credits';
+import adminRoutes from './routes/admin';
+import paymentRoutes from './routes/payments';
+import mediaRoutes from './routes/media';
+import subscriptionRoutes from './routes/subscription';
+import studioRoutes from './routes/studio';
+import { rateLimit } from './middleware/ratelimit';
+import { runScheduled } from './scheduled';
+import type { RateLimitCounter } from './lib/ratelimit';
 
 // API Environment bindings
 export type Env = {
   DB: D1Database;
   SESSIONS: KVNamespace;
   RATELIMIT: KVNamespace;
+  RATE_LIMITER?: DurableObjectNamespace<RateLimitCounter>; // atomic counters; falls back to RATELIMIT KV
+  RATE_LIMIT_GLOBAL?: string; // "<limit>/<windowSeconds>" overrides, see middleware/ratelimit.ts
+  RATE_LIMIT_CREDITS?: string;
+  RATE_LIMIT_ADMIN?: string;
   MEDIA_BUCKET: R2Bucket;
+  MEDIA_SIGNING_SECRET?: string; // signs paid-chapter media URLs; defaults to JWT_SECRET
+  MEDIA_URL_TTL_SECONDS?: string; // signed media URL lifetime, default 900
+  MEDIA_MAX_UPLOAD_BYTES?: string; // studio upload size limit, default 5 MB
   GOOGLE_CLIENT_ID: string;
   GOOGLE_CLIENT_SECRET: string;
+  GOOGLE_REDIRECT_URI?: string;
+  GOOGLE_TOKEN_URL?: string; // Override for local OAuth stubs
   JWT_SECRET: string;
+  JWT_KEYS?: string; // JSON [{ kid, secret }], first entry signs; overrides JWT_SECRET for rotation
+  JWT_KEY_ID?: string;
+  JWT_ISSUER?: string;
+  JWT_AUDIENCE?: string;
+  JWT_EXPIRY_HOURS?: string;
   ENVIRONMENT: string;
   CORS_ORIGIN: string;
+  APP_URL?: string; // Web origin used in emailed links; defaults to CORS_ORIGIN
+  MAIL_API_URL?: string;
+  MAIL_API_KEY?: string;
+  MAIL_FROM?: string;
+  HOLD_WELCOME_BONUS_UNTIL_VERIFIED?: string; // 'true' to grant the welcome bonus on email verification
+  WELCOME_BONUS_EXPIRY_DAYS?: string; // unset = welcome bonus never expires
+  PAYMENT_PROVIDER?: string; // required for purchases; 'fake' in development, see lib/payments.ts
+  PAYMENT_WEBHOOK_SECRET?: string;
 };
 
 // Create main Hono app with type-safe bindings
@@ -31,11 +61,15 @@ const app = new Hono<{ Bindings: Env }>();
 app.use(logger());
 app.use(cors({
   origin: (origin, c) => c.env.CORS_ORIGIN || '*',
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'Range'],
+  exposeHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After', 'Content-Range', 'Accept-Ranges', 'ETag'],
   credentials: true,
 }));
 
+// Global rate limit: 100 requests/min per IP
+app.use('/api/*', rateLimit('global'));
+
 // Health check
 app.get('/health', (c) => {
   return c.json({ status: 'ok', env: c.env.ENVIRONMENT });
@@ -46,6 +80,11 @@ app.route('/api/auth', authRoutes);
 app.route('/api/stories', storyRoutes);
 app.route('/api/chapters', chapterRoutes);
 app.route('/api/credits', creditRoutes);
+app.route('/api/subscription', subscriptionRoutes);
+app.route('/api/admin', adminRoutes);
+app.route('/api/payments', paymentRoutes);
+app.route('/api/media', mediaRoutes);
+app.route('/api/studio', studioRoutes);
 
 // 404 handler
 app.notFound((c) => c.json({ error: 'Not found' }, 404));
@@ -56,60 +95,13 @@ app.onError((err, c) => {
   return c.json({ error: 'Internal server error' }, 500);
 });
 
-// Export for Cloudflare Worker
-export default app;
-
-// JWT helpers for use in routes
-export async function signJWT(payload: object, secret: string): Promise<string> {
-  const header = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
-  const body = btoa(JSON.stringify(payload));
-  const data = new TextEncoder().encode(`${header}.${body}`);
-  const key = await crypto.subtle.importKey(
-    'raw',
-    new TextEncoder().encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  const signature = await crypto.subtle.sign('HMAC', key, data);
-  const sig = btoa(String.fromCharCode(...new Uint8Array(signature)));
-  return `${header}.${body}.${sig}`;
-}
-
-export async function verifyJWT(token: string, secret: string): Promise<any> {
-  const [header, body, signature] = token.split('.');
-  if (!header || !body || !signature) throw new Error('Invalid token');
-  const data = new TextEncoder().encode(`${header}.${body}`);
-  const key = await crypto.subtle.importKey(
-    'raw',
-    new TextEncoder().encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['verify']
-  );
-  const sigBytes = Uint8Array.from(atob(signature), c => c.charCodeAt(0));
-  const valid = await crypto.subtle.verify('HMAC', key, sigBytes, data);
-  if (!valid) throw new Error('Invalid signature');
-  return JSON.parse(atob(body));
-}
-
-// CORS helper for backward compatibility
-export function createCORSResponse(body: object, status: number, corsOrigin: string): Response {
-  return new Response(JSON.stringify(body), {
-    status,
-    headers: {
-      'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': corsOrigin || '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  });
-}
+// Export for Cloudflare Worker: HTTP via Hono, cron triggers via scheduled.ts
+export default {
+  fetch: app.fetch,
+  scheduled(controller, env, ctx) {
+    ctx.waitUntil(runScheduled(controller, env));
+  },
+} satisfies ExportedHandler<Env>;
 
-export async function parseBody<T>(request: Request): Promise<T> {
-  try {
-    return await request.json() as T;
-  } catch {
-    throw new Error('Invalid JSON body');
-  }
-}
+// Durable Object classes must be exported from the Worker entrypoint
+export { RateLimitCounter } from './lib/ratelimit';
@@ -0,0 +1,60 @@
+// Admin audit log (admin_audit_log table, append-only)
+//
+// Every admin mutation records who did what to whom, with before/after
+// snapshots. auditStatement() returns the INSERT so it can join the same
+// D1 batch as the change it describes.
+
+import type { Context } from 'hono';
+import type { AuthEnv } from '../middleware/auth';
+
+export type AuditAction =
+  | 'credits.add'
+  | 'credits.deduct'
+  | 'credits.refund'
+  | 'user.update'
+  | 'user.suspend'
+  | 'user.unsuspend'
+  | 'auth.unlock'
+  | 'balances.reconcile'
+  | 'promo.create'
+  | 'promo.deactivate'
+  | 'subscription.grant'
+  | 'subscription.end';
+
+export type AuditEntry = {
+  action: AuditAction;
+  targetType: 'user' | 'login' | 'ledger' | 'promo_code';
+  targetId: string | null;
+  reason?: string | null;
+  before?: unknown;
+  after?: unknown;
+  metadata?: Record<string, unknown>;
+};
+
+function json(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+export function auditStatement(c: Context<AuthEnv>, entry: AuditEntry): D1PreparedStatement {
+  return c.env.DB.prepare(`
+    INSERT INTO admin_audit_log (
+      actor_user_id, action, target_type, target_id, reason,
+      before_state, after_state, metadata, ip_address, user_agent, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    c.get('userId'),
+    entry.action,
+    entry.targetType,
+    entry.targetId,
+    entry.reason ?? null,
+    json(entry.before),
+    json(entry.after),
+    json(entry.metadata),
+    c.req.header('CF-Connecting-IP') ?? null,
+    c.req.header('User-Agent') ?? null
+  );
+}
+
+export async function recordAdminAction(c: Context<AuthEnv>, entry: AuditEntry): Promise<void> {
+  await auditStatement(c, entry).run();
+}
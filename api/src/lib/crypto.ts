@@ -13,65 +13,110 @@ export function generateId(): string {
   return id;
 }
 
-// Simple password hashing (using PBKDF2)
-export async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const salt = new Uint8Array(16);
-  crypto.getRandomValues(salt);
-  
+// Password hashing (PBKDF2)
+//
+// Stored format: pbkdf2-sha256$<iterations>$<saltB64>$<hashB64>
+// Legacy format: <saltB64>.<hashB64> (100000 iterations, from early seeds/sign-ups)
+// Workers caps PBKDF2 at 100000 iterations, so that is the current policy ceiling.
+export const PASSWORD_HASH_ALGORITHM = 'pbkdf2-sha256';
+export const PASSWORD_HASH_ITERATIONS = 100000;
+const LEGACY_HASH_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+
+type ParsedHash = {
+  algorithm: string;
+  iterations: number;
+  salt: Uint8Array;
+  hash: Uint8Array;
+  legacy: boolean;
+};
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+function parsePasswordHash(stored: string): ParsedHash | null {
+  try {
+    if (stored.startsWith(`${PASSWORD_HASH_ALGORITHM}$`)) {
+      const [algorithm, iterations, saltB64, hashB64] = stored.split('$');
+      const iterationCount = parseInt(iterations, 10);
+      if (!saltB64 || !hashB64 || !iterationCount) return null;
+      return { algorithm, iterations: iterationCount, salt: fromBase64(saltB64), hash: fromBase64(hashB64), legacy: false };
+    }
+
+    const [saltB64, hashB64] = stored.split('.');
+    if (!saltB64 || !hashB64) return null;
+    return { algorithm: PASSWORD_HASH_ALGORITHM, iterations: LEGACY_HASH_ITERATIONS, salt: fromBase64(saltB64), hash: fromBase64(hashB64), legacy: true };
+  } catch {
+    return null; // malformed base64
+  }
+}
+
+async function derivePasswordBits(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
-    encoder.encode(password),
+    new TextEncoder().encode(password),
     'PBKDF2',
     false,
     ['deriveBits']
   );
-  
-  const hash = await crypto.subtle.deriveBits(
+
+  const bits = await crypto.subtle.deriveBits(
     {
       name: 'PBKDF2',
       salt,
-      iterations: 100000,
+      iterations,
       hash: 'SHA-256'
     },
     keyMaterial,
     256
   );
-  
-  const saltB64 = btoa(String.fromCharCode(...salt));
-  const hashB64 = btoa(String.fromCharCode(...new Uint8Array(hash)));
-  return `${saltB64}.${hashB64}`;
+
+  return new Uint8Array(bits);
+}
+
+// Compare without short-circuiting so timing doesn't leak how many bytes matched
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = new Uint8Array(SALT_BYTES);
+  crypto.getRandomValues(salt);
+
+  const hash = await derivePasswordBits(password, salt, PASSWORD_HASH_ITERATIONS);
+  return `${PASSWORD_HASH_ALGORITHM}$${PASSWORD_HASH_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
 }
 
-// Verify password against hash
+// Verify password against hash (versioned or legacy format)
 export async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  const [saltB64, hashB64] = hash.split('.');
-  if (!saltB64 || !hashB64) return false;
-  
-  const encoder = new TextEncoder();
-  const salt = Uint8Array.from(atob(saltB64), c => c.charCodeAt(0));
-  
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(password),
-    'PBKDF2',
-    false,
-    ['deriveBits']
-  );
-  
-  const computedHash = await crypto.subtle.deriveBits(
-    {
-      name: 'PBKDF2',
-      salt,
-      iterations: 100000,
-      hash: 'SHA-256'
-    },
-    keyMaterial,
-    256
+  const parsed = parsePasswordHash(hash);
+  if (!parsed || parsed.algorithm !== PASSWORD_HASH_ALGORITHM) return false;
+
+  const computedHash = await derivePasswordBits(password, parsed.salt, parsed.iterations);
+  return timingSafeEqual(computedHash, parsed.hash);
+}
+
+// True when a stored hash predates the current policy and should be rehashed
+// (call only after verifyPassword succeeded, while the plaintext is at hand)
+export function passwordNeedsRehash(hash: string): boolean {
+  const parsed = parsePasswordHash(hash);
+  if (!parsed) return false;
+  return (
+    parsed.legacy ||
+    parsed.algorithm !== PASSWORD_HASH_ALGORITHM ||
+    parsed.iterations < PASSWORD_HASH_ITERATIONS ||
+    parsed.salt.length < SALT_BYTES
   );
-  
-  const computedHashB64 = btoa(String.fromCharCode(...new Uint8Array(computedHash)));
-  return computedHashB64 === hashB64;
 }
 
 // Generate secure random token
@@ -80,3 +125,16 @@ export function generateToken(length: number = 32): string {
   crypto.getRandomValues(buffer);
   return btoa(String.fromCharCode(...buffer));
 }
+
+// HMAC-SHA256 of a message, hex encoded (webhook and URL signatures)
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return [...new Uint8Array(signature)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,59 @@
+// Credit expiry (scheduled)
+//
+// Lots whose expires_at has passed get an EXPIRE ledger row for whatever they
+// have left, in the same batch as zeroing the lot and the usual ledger sync.
+// The amount is read from the lot at write time, so spends that land between
+// the scan and the batch are never expired twice.
+
+import type { Env } from '../index';
+import { BALANCE_SQL, ledgerSyncStatements, newTransactionId } from './ledger';
+
+// Lots handled per run; the next run picks up the rest
+const EXPIRY_BATCH_LIMIT = 500;
+
+export type ExpiryResult = {
+  expiredLots: number;
+};
+
+export async function expireCredits(env: Env): Promise<ExpiryResult> {
+  const db = env.DB;
+  const lapsed = await db.prepare(`
+    SELECT id, user_id FROM credit_lots
+    WHERE remaining > 0 AND expires_at IS NOT NULL AND expires_at <= datetime('now')
+    ORDER BY expires_at
+    LIMIT ?
+  `).bind(EXPIRY_BATCH_LIMIT).all<{ id: string; user_id: string }>();
+
+  let expiredLots = 0;
+  for (const lot of lapsed.results || []) {
+    const transactionId = newTransactionId();
+    try {
+      const [expired] = await db.batch([
+        db.prepare(`
+          INSERT INTO credit_transactions (
+            transaction_id, user_id, transaction_type, credits_amount, balance_after,
+            idempotency_key, reason, metadata, created_at
+          )
+          SELECT ?, user_id, 'EXPIRE', remaining, (${BALANCE_SQL}) - remaining,
+                 'expire_' || id, 'Credits expired',
+                 json_object('lotId', id, 'sourceType', source_type, 'expiresAt', expires_at), datetime('now')
+          FROM credit_lots
+          WHERE id = ? AND remaining > 0
+        `).bind(transactionId, lot.user_id, lot.id),
+        ...ledgerSyncStatements(db, transactionId),
+        db.prepare(`
+          UPDATE credit_lots SET remaining = 0
+          WHERE id = ? AND EXISTS (SELECT 1 FROM credit_transactions WHERE transaction_id = ?)
+        `).bind(lot.id, transactionId),
+      ]);
+      if (expired.meta.changes === 1) expiredLots++;
+    } catch (error) {
+      console.error(`[Expiry] Failed to expire lot ${lot.id}:`, error);
+    }
+  }
+
+  if (expiredLots > 0) {
+    console.log(`[Expiry] Expired ${expiredLots} credit lot(s)`);
+  }
+  return { expiredLots };
+}
@@ -0,0 +1,94 @@
+// Google OAuth helpers for StoryChat API
+
+export const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+const GOOGLE_ISSUERS = ['accounts.google.com', 'https://accounts.google.com'];
+
+export type GoogleProfile = {
+  sub: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
+};
+
+export type GoogleExchangeOptions = {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  // Override for local stubs / tests; defaults to Google's token endpoint
+  tokenUrl?: string;
+  fetch?: typeof fetch;
+};
+
+function decodeBase64Url(input: string): string {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const bytes = Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+// Exchange an authorization code for the signed-in Google profile.
+// The id_token comes straight from the token endpoint over TLS, so we only
+// check its claims rather than re-verifying the signature.
+export async function exchangeGoogleCode(
+  code: string,
+  options: GoogleExchangeOptions
+): Promise<GoogleProfile> {
+  const doFetch = options.fetch ?? fetch;
+  const response = await doFetch(options.tokenUrl || GOOGLE_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      code,
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+      redirect_uri: options.redirectUri,
+      grant_type: 'authorization_code',
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Google code exchange failed');
+  }
+
+  const tokens = await response.json<{ id_token?: string }>();
+  if (!tokens.id_token) {
+    throw new Error('Google response missing id_token');
+  }
+
+  const [, body] = tokens.id_token.split('.');
+  if (!body) throw new Error('Invalid Google id_token');
+
+  const claims = JSON.parse(decodeBase64Url(body)) as {
+    iss?: string;
+    aud?: string;
+    sub?: string;
+    exp?: number;
+    email?: string;
+    email_verified?: boolean | string;
+    name?: string;
+    picture?: string;
+  };
+
+  if (!claims.iss || !GOOGLE_ISSUERS.includes(claims.iss)) {
+    throw new Error('Invalid Google token issuer');
+  }
+  if (claims.aud !== options.clientId) {
+    throw new Error('Google token audience mismatch');
+  }
+  if (!claims.exp || claims.exp * 1000 < Date.now()) {
+    throw new Error('Google token expired');
+  }
+  if (!claims.sub || !claims.email) {
+    throw new Error('Google token missing subject or email');
+  }
+
+  return {
+    sub: claims.sub,
+    email: claims.email.toLowerCase(),
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: claims.name,
+    picture: claims.picture,
+  };
+}
@@ -0,0 +1,121 @@
+// JWT (HS256) helpers for StoryChat API
+//
+// Access tokens carry iss/aud/iat/exp and a `kid` header naming the signing key.
+// Keys come from JWT_KEYS (JSON list, first entry signs) so JWT_SECRET can be
+// rotated: add the new key first, keep the previous one until its tokens expire.
+
+import type { Env } from '../index';
+
+export type JwtKey = {
+  kid: string;
+  secret: string;
+};
+
+export type AccessTokenClaims = {
+  userId: string;
+  email: string;
+  isAdmin: boolean;
+  sessionId: string;
+};
+
+export type AccessTokenPayload = AccessTokenClaims & {
+  iss: string;
+  aud: string;
+  iat: number;
+  exp: number;
+};
+
+const DEFAULT_ISSUER = 'storychat-api';
+const DEFAULT_AUDIENCE = 'storychat-web';
+const DEFAULT_EXPIRY_HOURS = 24;
+const CLOCK_SKEW_SECONDS = 60;
+
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(input: Uint8Array | string): string {
+  const bytes = typeof input === 'string' ? encoder.encode(input) : input;
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
+function importHmacKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+// Active keys, signing key first
+export function getJwtKeys(env: Env): JwtKey[] {
+  if (env.JWT_KEYS) {
+    const keys = JSON.parse(env.JWT_KEYS) as JwtKey[];
+    if (!Array.isArray(keys) || keys.length === 0 || keys.some(k => !k.kid || !k.secret)) {
+      throw new Error('JWT_KEYS must be a non-empty list of { kid, secret }');
+    }
+    return keys;
+  }
+  if (!env.JWT_SECRET) throw new Error('JWT_SECRET not configured');
+  return [{ kid: env.JWT_KEY_ID || 'primary', secret: env.JWT_SECRET }];
+}
+
+export async function signJWT(payload: Record<string, unknown>, key: JwtKey): Promise<string> {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: key.kid }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const signature = await crypto.subtle.sign('HMAC', await importHmacKey(key.secret, 'sign'), encoder.encode(`${header}.${body}`));
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Checks the signature against the key named by `kid`; claims are left to the caller
+export async function verifyJWT<T = Record<string, unknown>>(token: string, keys: JwtKey[]): Promise<T> {
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature) throw new Error('Invalid token');
+
+  const { alg, kid } = JSON.parse(new TextDecoder().decode(base64UrlDecode(header))) as { alg?: string; kid?: string };
+  if (alg !== 'HS256') throw new Error('Unsupported algorithm');
+
+  const key = keys.find(k => k.kid === kid);
+  if (!key) throw new Error('Unknown signing key');
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await importHmacKey(key.secret, 'verify'),
+    base64UrlDecode(signature),
+    encoder.encode(`${header}.${body}`)
+  );
+  if (!valid) throw new Error('Invalid signature');
+
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(body))) as T;
+}
+
+export async function signAccessToken(env: Env, claims: AccessTokenClaims): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const expiryHours = Number(env.JWT_EXPIRY_HOURS) || DEFAULT_EXPIRY_HOURS;
+  const [signingKey] = getJwtKeys(env);
+  return signJWT(
+    {
+      ...claims,
+      iss: env.JWT_ISSUER || DEFAULT_ISSUER,
+      aud: env.JWT_AUDIENCE || DEFAULT_AUDIENCE,
+      iat: now,
+      exp: now + expiryHours * 3600,
+    },
+    signingKey
+  );
+}
+
+export async function verifyAccessToken(env: Env, token: string): Promise<AccessTokenPayload> {
+  const payload = await verifyJWT<Partial<AccessTokenPayload>>(token, getJwtKeys(env));
+  const now = Math.floor(Date.now() / 1000);
+
+  if (payload.iss !== (env.JWT_ISSUER || DEFAULT_ISSUER)) throw new Error('Invalid issuer');
+  if (payload.aud !== (env.JWT_AUDIENCE || DEFAULT_AUDIENCE)) throw new Error('Invalid audience');
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) throw new Error('Token expired');
+  if (typeof payload.iat !== 'number' || payload.iat - CLOCK_SKEW_SECONDS > now) throw new Error('Token issued in the future');
+  if (!payload.userId || !payload.sessionId) throw new Error('Invalid token claims');
+
+  return payload as AccessTokenPayload;
+}
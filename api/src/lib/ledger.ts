@@ -0,0 +1,134 @@
+// Credit ledger helpers (credit_transactions)
+//
+// credit_transactions is the source of truth; user_balances holds each user's
+// running total so reads don't scan the ledger, and credit_lots tracks what is
+// left of each incoming row so promotional credits can expire. Every ledger
+// insert must go out in the same batch as ledgerSyncStatements() for its
+// transaction id.
+
+export function newTransactionId(): string {
+  return `tx_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Transaction types that add credits; everything else spends or removes them
+export const CREDIT_TYPES_SQL = `'PURCHASE', 'REFUND', 'ADMIN_ADD', 'BONUS', 'PROMO'`;
+
+// Lot source types reported as promotional in the balance breakdown
+export const PROMOTIONAL_TYPES = ['BONUS', 'PROMO'];
+
+// Credits in are positive, spends and removals negative
+export const SIGNED_AMOUNT_SQL = `
+  CASE WHEN transaction_type IN (${CREDIT_TYPES_SQL}) THEN credits_amount
+       ELSE -credits_amount END
+`;
+
+// Scalar subquery for a user's balance; bind the user id once wherever it is embedded
+export const BALANCE_SQL = `
+  SELECT COALESCE((SELECT balance FROM user_balances WHERE user_id = ?), 0)
+`;
+
+// Same, recomputed from the full ledger (reconciliation only)
+export const LEDGER_BALANCE_SQL = `
+  SELECT COALESCE(SUM(${SIGNED_AMOUNT_SQL}), 0)
+  FROM credit_transactions
+  WHERE user_id = ?
+`;
+
+// D1 datetime('now') format, so stored timestamps compare correctly in SQL
+export function toSqlDateTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+export async function getBalance(db: D1Database, userId: string): Promise<number> {
+  const result = await db.prepare(`SELECT (${BALANCE_SQL}) as balance`).bind(userId).first<{ balance: number }>();
+  return result?.balance ?? 0;
+}
+
+export type CreditSummary = {
+  balance: number;
+  breakdown: { purchased: number; promotional: number };
+  nextExpiry: { credits: number; expiresAt: string } | null;
+};
+
+type CreditTotalsRow = { balance: number; promotional: number; purchased: number };
+type NextExpiryRow = { expires_at: string; credits: number };
+
+// Balance plus what is left of each kind of credit and the next batch due to expire
+export async function getCreditSummary(db: D1Database, userId: string): Promise<CreditSummary> {
+  const promotional = PROMOTIONAL_TYPES.map(t => `'${t}'`).join(', ');
+  const [totalsResult, expiryResult] = await db.batch([
+    db.prepare(`
+      SELECT (${BALANCE_SQL}) AS balance,
+             COALESCE(SUM(CASE WHEN source_type IN (${promotional}) THEN remaining END), 0) AS promotional,
+             COALESCE(SUM(CASE WHEN source_type NOT IN (${promotional}) THEN remaining END), 0) AS purchased
+      FROM credit_lots
+      WHERE user_id = ? AND remaining > 0
+    `).bind(userId, userId),
+    db.prepare(`
+      SELECT expires_at, SUM(remaining) AS credits
+      FROM credit_lots
+      WHERE user_id = ? AND remaining > 0 AND expires_at > datetime('now')
+      GROUP BY expires_at
+      ORDER BY expires_at
+      LIMIT 1
+    `).bind(userId),
+  ]);
+
+  const row = (totalsResult as D1Result<CreditTotalsRow>).results?.[0] ?? { balance: 0, promotional: 0, purchased: 0 };
+  const next = (expiryResult as D1Result<NextExpiryRow>).results?.[0];
+  return {
+    balance: row.balance,
+    breakdown: { purchased: row.purchased, promotional: row.promotional },
+    nextExpiry: next ? { credits: next.credits, expiresAt: `${next.expires_at.replace(' ', 'T')}Z` } : null,
+  };
+}
+
+// Applies a just-inserted ledger row to user_balances; a no-op if the insert was skipped
+export function balanceSyncStatement(db: D1Database, transactionId: string): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO user_balances (user_id, balance, last_transaction_id, updated_at)
+    SELECT user_id, ${SIGNED_AMOUNT_SQL}, transaction_id, datetime('now')
+    FROM credit_transactions
+    WHERE transaction_id = ?
+    ON CONFLICT(user_id) DO UPDATE SET
+      balance = user_balances.balance + excluded.balance,
+      last_transaction_id = excluded.last_transaction_id,
+      updated_at = excluded.updated_at
+  `).bind(transactionId);
+}
+
+// Incoming rows open a lot; outgoing rows drain lots soonest-expiring first (never-expiring
+// last, then oldest). EXPIRE rows are excluded: the expiry job zeroes the lapsed lot itself.
+export function lotSyncStatements(db: D1Database, transactionId: string): D1PreparedStatement[] {
+  return [
+    db.prepare(`
+      INSERT INTO credit_lots (id, user_id, source_type, amount, remaining, expires_at, created_at)
+      SELECT transaction_id, user_id, transaction_type, credits_amount, credits_amount, expires_at, datetime('now')
+      FROM credit_transactions
+      WHERE transaction_id = ? AND transaction_type IN (${CREDIT_TYPES_SQL})
+    `).bind(transactionId),
+
+    db.prepare(`
+      UPDATE credit_lots
+      SET remaining = credit_lots.remaining - MIN(o.remaining, t.amount - o.before)
+      FROM (
+        SELECT id, remaining,
+               COALESCE(SUM(remaining) OVER (
+                 ORDER BY expires_at IS NULL, expires_at, created_at, id
+                 ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+               ), 0) AS before
+        FROM credit_lots
+        WHERE user_id = (SELECT user_id FROM credit_transactions WHERE transaction_id = ?) AND remaining > 0
+      ) o, (
+        SELECT credits_amount AS amount FROM credit_transactions
+        WHERE transaction_id = ? AND transaction_type NOT IN (${CREDIT_TYPES_SQL}, 'EXPIRE')
+      ) t
+      WHERE credit_lots.id = o.id AND o.before < t.amount
+    `).bind(transactionId, transactionId),
+  ];
+}
+
+// Everything that has to change alongside a ledger insert
+export function ledgerSyncStatements(db: D1Database, transactionId: string): D1PreparedStatement[] {
+  return [balanceSyncStatement(db, transactionId), ...lotSyncStatements(db, transactionId)];
+}
@@ -0,0 +1,118 @@
+// Login brute-force protection (RATELIMIT KV namespace)
+//
+// Failed logins are counted per email and per IP. After a few free attempts each
+// further failure adds an exponentially growing delay; at the lockout threshold
+// the scope is locked for LOCKOUT_SECONDS. Counters decay FAILURE_WINDOW_SECONDS
+// after the last failure.
+//
+// This is best effort: KV has no atomic increment, so parallel failures can read the
+// same count and undercount. Sequential guessing, the case that matters, is counted
+// exactly, and the per-IP limit bounds how far a burst can get.
+
+export type LockoutScope = 'email' | 'ip';
+
+type ScopePolicy = {
+  freeAttempts: number; // failures allowed before any delay
+  lockoutAfter: number; // failures that trigger the full lockout
+};
+
+const POLICIES: Record<LockoutScope, ScopePolicy> = {
+  email: { freeAttempts: 4, lockoutAfter: 10 },
+  ip: { freeAttempts: 20, lockoutAfter: 50 }, // shared NATs / offices get more headroom
+};
+
+const BASE_DELAY_SECONDS = 15;
+export const LOCKOUT_SECONDS = 15 * 60;
+const FAILURE_WINDOW_SECONDS = 60 * 60;
+
+type FailureRecord = {
+  count: number;
+  lockedUntil: number; // epoch ms, 0 when not blocked
+  lastFailureAt: number;
+};
+
+export type LockoutStatus = {
+  locked: boolean;
+  retryAfterSeconds: number;
+};
+
+export type FailureOutcome = LockoutStatus & {
+  // True whenever a failure puts this scope into the full lockout, including each
+  // re-lock after an earlier lockout expired within the failure window
+  lockedOut: boolean;
+  count: number;
+};
+
+function lockoutKey(scope: LockoutScope, value: string): string {
+  return `login_fail:${scope}:${value.trim().toLowerCase()}`;
+}
+
+async function readRecord(kv: KVNamespace, key: string): Promise<FailureRecord | null> {
+  const raw = await kv.get(key);
+  return raw ? (JSON.parse(raw) as FailureRecord) : null;
+}
+
+function statusOf(record: FailureRecord | null, now: number): LockoutStatus {
+  if (!record || record.lockedUntil <= now) return { locked: false, retryAfterSeconds: 0 };
+  return { locked: true, retryAfterSeconds: Math.ceil((record.lockedUntil - now) / 1000) };
+}
+
+// Check every scope; the longest remaining block wins
+export async function checkLoginLockout(
+  kv: KVNamespace,
+  targets: Partial<Record<LockoutScope, string | null>>
+): Promise<LockoutStatus> {
+  const now = Date.now();
+  let result: LockoutStatus = { locked: false, retryAfterSeconds: 0 };
+
+  for (const scope of Object.keys(targets) as LockoutScope[]) {
+    const value = targets[scope];
+    if (!value) continue;
+    const status = statusOf(await readRecord(kv, lockoutKey(scope, value)), now);
+    if (status.retryAfterSeconds > result.retryAfterSeconds) result = status;
+  }
+
+  return result;
+}
+
+export async function recordLoginFailure(
+  kv: KVNamespace,
+  scope: LockoutScope,
+  value: string
+): Promise<FailureOutcome> {
+  const key = lockoutKey(scope, value);
+  const policy = POLICIES[scope];
+  const now = Date.now();
+
+  const previous = await readRecord(kv, key);
+  const count = (previous?.count ?? 0) + 1;
+
+  let delaySeconds = 0;
+  if (count >= policy.lockoutAfter) {
+    delaySeconds = LOCKOUT_SECONDS;
+  } else if (count > policy.freeAttempts) {
+    delaySeconds = Math.min(BASE_DELAY_SECONDS * 2 ** (count - policy.freeAttempts - 1), LOCKOUT_SECONDS);
+  }
+
+  const record: FailureRecord = {
+    count,
+    lockedUntil: delaySeconds ? now + delaySeconds * 1000 : 0,
+    lastFailureAt: now,
+  };
+  await kv.put(key, JSON.stringify(record), {
+    expirationTtl: Math.max(FAILURE_WINDOW_SECONDS, delaySeconds + 60),
+  });
+
+  return {
+    ...statusOf(record, now),
+    lockedOut: count >= policy.lockoutAfter,
+    count,
+  };
+}
+
+export async function clearLoginFailures(kv: KVNamespace, scope: LockoutScope, value: string): Promise<boolean> {
+  const key = lockoutKey(scope, value);
+  const existed = (await kv.get(key)) !== null;
+  await kv.delete(key);
+  return existed;
+}
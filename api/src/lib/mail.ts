@@ -0,0 +1,78 @@
+// Outgoing mail for StoryChat API
+//
+// Routes send through a MailTransport so the delivery provider can be swapped.
+// Without a provider configured, mail is logged to the console; tests install
+// a MemoryMailTransport with setMailTransport() and read `sent`.
+
+import type { Env } from '../index';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+export class MemoryMailTransport implements MailTransport {
+  sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  lastTo(to: string): MailMessage | undefined {
+    return [...this.sent].reverse().find(m => m.to === to);
+  }
+
+  clear(): void {
+    this.sent = [];
+  }
+}
+
+// Generic JSON-over-HTTP provider (Resend, Postmark, MailChannels-style APIs)
+export class HttpMailTransport implements MailTransport {
+  constructor(
+    private url: string,
+    private apiKey: string,
+    private from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ from: this.from, ...message }),
+    });
+    if (!response.ok) {
+      throw new Error(`Mail delivery failed: HTTP ${response.status}`);
+    }
+  }
+}
+
+let overrideTransport: MailTransport | null = null;
+
+// Replace the transport for every request (tests / local development)
+export function setMailTransport(transport: MailTransport | null): void {
+  overrideTransport = transport;
+}
+
+export function getMailTransport(env: Env): MailTransport {
+  if (overrideTransport) return overrideTransport;
+  if (env.MAIL_API_URL && env.MAIL_API_KEY) {
+    return new HttpMailTransport(env.MAIL_API_URL, env.MAIL_API_KEY, env.MAIL_FROM || 'StoryChat <no-reply@storychat.app>');
+  }
+  return new ConsoleMailTransport();
+}
@@ -0,0 +1,66 @@
+// Media URLs (R2 keys in MEDIA_BUCKET)
+//
+// Rows store R2 keys (messages.media_key, characters.avatar_key, stories.cover_image_key);
+// responses carry URLs the web client can fetch from GET /api/media/:key. Media used
+// by paid chapters is only served with a short-lived HMAC signature, which the API
+// hands out with the chapter payload once the reader has access.
+
+import type { Env } from '../index';
+import { hmacSha256Hex, timingSafeEqual } from './crypto';
+
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 15 * 60;
+
+function mediaPath(key: string): string {
+  // Keys may contain '/', which stays as a path separator
+  return `/api/media/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+function signingSecret(env: Env): string {
+  return env.MEDIA_SIGNING_SECRET || env.JWT_SECRET;
+}
+
+export function signedUrlTtlSeconds(env: Env): number {
+  return parseInt(env.MEDIA_URL_TTL_SECONDS || '', 10) || DEFAULT_SIGNED_URL_TTL_SECONDS;
+}
+
+export function mediaUrl(origin: string, key: string | null | undefined): string | null {
+  if (!key) return null;
+  return `${origin}${mediaPath(key)}`;
+}
+
+export async function signedMediaUrl(env: Env, origin: string, key: string | null | undefined): Promise<string | null> {
+  if (!key) return null;
+  const expires = Math.floor(Date.now() / 1000) + signedUrlTtlSeconds(env);
+  const signature = await hmacSha256Hex(signingSecret(env), `${key}\n${expires}`);
+  return `${origin}${mediaPath(key)}?exp=${expires}&sig=${signature}`;
+}
+
+// Seconds the signature stays valid, or null if it is missing, wrong or expired
+export async function verifyMediaSignature(env: Env, key: string, exp?: string, sig?: string): Promise<number | null> {
+  const expires = parseInt(exp || '', 10);
+  const remaining = expires - Math.floor(Date.now() / 1000);
+  if (!sig || !expires || remaining <= 0) return null;
+  const expected = await hmacSha256Hex(signingSecret(env), `${key}\n${expires}`);
+  const encoder = new TextEncoder();
+  return timingSafeEqual(encoder.encode(expected), encoder.encode(sig)) ? remaining : null;
+}
+
+// Media referenced by a message in a paid chapter needs a signed URL. Keys are content-addressed,
+// so the same image can also be a cover, an avatar or free-chapter media; those URLs are handed out
+// unsigned, and any such public reference keeps the key public.
+export async function isProtectedMedia(db: D1Database, key: string): Promise<boolean> {
+  const row = await db.prepare(`
+    SELECT
+      EXISTS (
+        SELECT 1 FROM messages m JOIN chapters c ON m.chapter_id = c.id
+        WHERE m.media_key = ? AND COALESCE(c.is_free, 0) = 0
+      )
+      AND NOT EXISTS (SELECT 1 FROM stories WHERE cover_image_key = ?)
+      AND NOT EXISTS (SELECT 1 FROM characters WHERE avatar_key = ?)
+      AND NOT EXISTS (
+        SELECT 1 FROM messages m JOIN chapters c ON m.chapter_id = c.id
+        WHERE m.media_key = ? AND c.is_free = 1
+      ) AS protected
+  `).bind(key, key, key, key).first<{ protected: number }>();
+  return row?.protected === 1;
+}
@@ -0,0 +1,72 @@
+// Chapter messages in the web ChapterWithMessages / Message shape (web/types/index.ts)
+//
+// api/test/contract.test.ts checks the chapter payload against those web types.
+
+import type { Env } from '../index';
+import { mediaUrl, signedMediaUrl } from './media';
+
+// Matches the web reader's fallback bubble color
+export const DEFAULT_COLOR_THEME = '#6366f1';
+
+export type ChapterMessage = {
+  id: string;
+  sequenceIndex: number;
+  senderType: 'CHARACTER' | 'NARRATOR';
+  senderName: string;
+  colorTheme: string;
+  avatar: string | null;
+  content: string;
+  media: { url: string; type: 'image' | 'video'; width: number | null; height: number | null; blurhash: string | null } | null;
+  delaySeconds: number;
+};
+
+type MessageRow = {
+  id: string;
+  sequence_index: number;
+  sender_type: 'CHARACTER' | 'NARRATOR';
+  content: string;
+  media_key: string | null;
+  media_type: string | null;
+  delay_seconds: number | null;
+  character_name: string | null;
+  color_theme: string | null;
+  avatar_key: string | null;
+  media_width: number | null;
+  media_height: number | null;
+  media_blurhash: string | null;
+};
+
+// Paid chapters get signed, expiring media URLs; avatars are always public
+export async function loadChapterMessages(env: Env, chapterId: string, origin: string, signMedia: boolean): Promise<ChapterMessage[]> {
+  const result = await env.DB.prepare(`
+    SELECT m.id, m.sequence_index, m.sender_type, m.content, m.media_key, m.media_type, m.delay_seconds,
+           ch.name AS character_name, ch.color_theme, ch.avatar_key,
+           mo.width AS media_width, mo.height AS media_height, mo.blurhash AS media_blurhash
+    FROM messages m
+    LEFT JOIN characters ch ON m.character_id = ch.id
+    LEFT JOIN media_objects mo ON mo.key = m.media_key
+    WHERE m.chapter_id = ?
+    ORDER BY m.sequence_index
+  `).bind(chapterId).all<MessageRow>();
+
+  return Promise.all((result.results || []).map(async m => {
+    const media = signMedia ? await signedMediaUrl(env, origin, m.media_key) : mediaUrl(origin, m.media_key);
+    return {
+      id: m.id,
+      sequenceIndex: m.sequence_index,
+      senderType: m.sender_type,
+      senderName: m.character_name || 'Narrator',
+      colorTheme: m.color_theme || DEFAULT_COLOR_THEME,
+      avatar: mediaUrl(origin, m.avatar_key),
+      content: m.content,
+      media: media ? {
+        url: media,
+        type: m.media_type === 'video' ? 'video' : 'image',
+        width: m.media_width,
+        height: m.media_height,
+        blurhash: m.media_blurhash,
+      } : null,
+      delaySeconds: m.delay_seconds ?? 2,
+    };
+  }));
+}
@@ -0,0 +1,101 @@
+// Payment providers for credit pack purchases
+//
+// Checkout and webhook verification go through a PaymentProvider so the
+// processor can be swapped. PAYMENT_PROVIDER selects it and must be set; the
+// only built-in one is `fake`, which signs webhooks with PAYMENT_WEBHOOK_SECRET
+// so local runs and tests can settle purchases with signFakeWebhook(). It is
+// only enabled in the development environment.
+
+import type { Env } from '../index';
+import { hmacSha256Hex, timingSafeEqual } from './crypto';
+
+export type CheckoutRequest = {
+  purchaseId: string;
+  userId: string;
+  packId: string;
+  name: string;
+  priceCents: number;
+  currency: string;
+  successUrl: string;
+  cancelUrl: string;
+};
+
+export type CheckoutSession = {
+  providerRef: string;
+  checkoutUrl: string;
+};
+
+export type PaymentEvent = {
+  type: 'payment.succeeded' | 'payment.failed';
+  eventId: string;
+  purchaseId: string;
+  providerRef: string;
+  amountCents: number;
+  currency: string;
+};
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Returns null when the signature doesn't check out
+  verifyWebhook(request: Request): Promise<PaymentEvent | null>;
+}
+
+export const FAKE_SIGNATURE_HEADER = 'X-Fake-Signature';
+
+// Webhooks older than this are rejected to limit replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Header value for a fake webhook body: "t=<unix seconds>,v1=<hex hmac of `${t}.${body}`>"
+export async function signFakeWebhook(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  constructor(private webhookSecret: string) {}
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const providerRef = `fake_cs_${request.purchaseId}`;
+    const url = new URL(request.successUrl);
+    url.searchParams.set('checkout', providerRef);
+    return { providerRef, checkoutUrl: url.toString() };
+  }
+
+  async verifyWebhook(request: Request): Promise<PaymentEvent | null> {
+    const header = request.headers.get(FAKE_SIGNATURE_HEADER);
+    if (!header) return null;
+
+    const parts = Object.fromEntries(header.split(',').map(p => p.split('=', 2) as [string, string]));
+    const timestamp = parseInt(parts.t, 10);
+    if (!timestamp || !parts.v1) return null;
+    if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return null;
+
+    const body = await request.text();
+    const expected = await hmacSha256Hex(this.webhookSecret, `${timestamp}.${body}`);
+    const encoder = new TextEncoder();
+    if (!timingSafeEqual(encoder.encode(expected), encoder.encode(parts.v1))) return null;
+
+    return JSON.parse(body) as PaymentEvent;
+  }
+}
+
+let overrideProvider: PaymentProvider | null = null;
+
+// Replace the provider for every request (tests / local development)
+export function setPaymentProvider(provider: PaymentProvider | null): void {
+  overrideProvider = provider;
+}
+
+export function getPaymentProvider(env: Env): PaymentProvider {
+  if (overrideProvider) return overrideProvider;
+  // No default: an unconfigured deployment must not fall back to the fake provider
+  const name = env.PAYMENT_PROVIDER;
+  if (!name) throw new Error('PAYMENT_PROVIDER is not configured');
+  if (name === 'fake') {
+    if (!env.PAYMENT_WEBHOOK_SECRET) throw new Error('PAYMENT_WEBHOOK_SECRET is not configured');
+    return new FakePaymentProvider(env.PAYMENT_WEBHOOK_SECRET);
+  }
+  throw new Error(`Unknown payment provider: ${name}`);
+}
@@ -0,0 +1,123 @@
+// Chapter pricing
+//
+// The effective unlock price is resolved in order:
+//   1. free chapters cost nothing
+//   2. stories.chapter_unlock_cost overrides chapters.unlock_cost when set
+//   3. the best active sale (story-specific or storewide) takes its percentage off
+//   4. the reader's subscription tier discount applies to the sale price (none configured
+//      today: premium readers skip pricing entirely and get subscription grants)
+// Unlock, the 402 locked response and the story chapter list all go through priceChapter().
+// priceBundle() sums the still-locked chapters of a story and takes the bundle discount off.
+
+export const TIER_DISCOUNT_PERCENT: Record<string, number> = {
+  free: 0,
+};
+
+// Used when stories.bundle_discount_percent is NULL
+export const DEFAULT_BUNDLE_DISCOUNT_PERCENT = 20;
+
+export type PriceDiscount = {
+  source: 'sale' | 'tier';
+  percent: number;
+  label?: string | null;
+  endsAt?: string;
+};
+
+export type ChapterPrice = {
+  baseCost: number;
+  cost: number;
+  discounts: PriceDiscount[];
+};
+
+export type BundlePrice = {
+  chapters: { chapterId: string; cost: number }[];
+  subtotal: number;
+  discountPercent: number;
+  cost: number;
+};
+
+export type PricingContext = {
+  storyOverride: number | null;
+  bundleDiscount: number;
+  sale: { discount_percent: number; label: string | null; ends_at: string } | null;
+  tier: string;
+};
+
+type PricedChapter = { is_free: number; unlock_cost: number | null };
+
+type StoryPricingRow = { chapter_unlock_cost: number | null; bundle_discount_percent: number | null };
+type SaleRow = NonNullable<PricingContext['sale']>;
+type TierRow = { subscription_tier: string | null };
+
+// Loads everything needed to price the chapters of one story for one reader (or anonymous)
+export async function loadPricingContext(
+  db: D1Database,
+  storyId: string,
+  userId?: string | null
+): Promise<PricingContext> {
+  const [storyResult, saleResult, userResult] = await db.batch([
+    db.prepare(`SELECT chapter_unlock_cost, bundle_discount_percent FROM stories WHERE id = ?`).bind(storyId),
+    db.prepare(`
+      SELECT discount_percent, label, ends_at FROM pricing_sales
+      WHERE (story_id = ? OR story_id IS NULL)
+        AND starts_at <= datetime('now') AND ends_at > datetime('now')
+      ORDER BY discount_percent DESC
+      LIMIT 1
+    `).bind(storyId),
+    db.prepare(`SELECT subscription_tier FROM users WHERE id = ?`).bind(userId ?? ''),
+  ]);
+
+  const story = (storyResult as D1Result<StoryPricingRow>).results?.[0];
+  const sale = (saleResult as D1Result<SaleRow>).results?.[0];
+  const user = (userResult as D1Result<TierRow>).results?.[0];
+  return {
+    storyOverride: story?.chapter_unlock_cost ?? null,
+    bundleDiscount: story?.bundle_discount_percent ?? DEFAULT_BUNDLE_DISCOUNT_PERCENT,
+    sale: sale ?? null,
+    tier: user?.subscription_tier ?? 'free',
+  };
+}
+
+function applyDiscount(cost: number, percent: number): number {
+  return Math.max(0, Math.round(cost * (100 - percent) / 100));
+}
+
+export function priceChapter(ctx: PricingContext, chapter: PricedChapter): ChapterPrice {
+  if (chapter.is_free === 1) return { baseCost: 0, cost: 0, discounts: [] };
+
+  const baseCost = ctx.storyOverride ?? chapter.unlock_cost ?? 10;
+  const discounts: PriceDiscount[] = [];
+  let cost = baseCost;
+
+  if (ctx.sale) {
+    cost = applyDiscount(cost, ctx.sale.discount_percent);
+    discounts.push({ source: 'sale', percent: ctx.sale.discount_percent, label: ctx.sale.label, endsAt: ctx.sale.ends_at });
+  }
+
+  const tierPercent = TIER_DISCOUNT_PERCENT[ctx.tier] ?? 0;
+  if (tierPercent > 0) {
+    cost = applyDiscount(cost, tierPercent);
+    discounts.push({ source: 'tier', percent: tierPercent, label: ctx.tier });
+  }
+
+  return { baseCost, cost, discounts };
+}
+
+// Only worth offering with two or more paid chapters left; returns null otherwise
+export function priceBundle(
+  ctx: PricingContext,
+  lockedChapters: (PricedChapter & { id: string })[]
+): BundlePrice | null {
+  const chapters = lockedChapters
+    .filter(ch => ch.is_free !== 1)
+    .map(ch => ({ chapterId: ch.id, cost: priceChapter(ctx, ch).cost }));
+  if (chapters.length < 2) return null;
+
+  const subtotal = chapters.reduce((sum, ch) => sum + ch.cost, 0);
+  return {
+    chapters,
+    subtotal,
+    discountPercent: ctx.bundleDiscount,
+    cost: applyDiscount(subtotal, ctx.bundleDiscount),
+  };
+}
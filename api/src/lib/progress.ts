@@ -0,0 +1,80 @@
+// Reading progress (user_chapters.last_message_index / completed_at)
+//
+// last_message_index is the 0-based index of the last message the reader has seen
+// in the chapter's message list (not a count: a finished chapter stores n - 1). It only moves forward, so a late debounced
+// write or an older device can't rewind a reader who has read further elsewhere.
+
+import { generateId } from './crypto';
+
+export type ChapterProgress = {
+  lastMessageRead: number;
+  completed: boolean;
+  completedAt: string | null;
+  updatedAt: string | null;
+};
+
+export type ProgressRow = {
+  last_message_index: number | null;
+  completed_at: string | null;
+  updated_at: string | null;
+};
+
+export type ProgressWrite = {
+  userId: string;
+  storyId: string;
+  chapterId: string;
+  lastMessageRead: number; // already clamped to the chapter's messages
+};
+
+function isoDate(value: string | null): string | null {
+  return value ? `${value.replace(' ', 'T')}Z` : null;
+}
+
+export function toProgress(row?: ProgressRow | null): ChapterProgress {
+  return {
+    lastMessageRead: row?.last_message_index ?? 0,
+    completed: !!row?.completed_at,
+    completedAt: isoDate(row?.completed_at ?? null),
+    updatedAt: isoDate(row?.updated_at ?? null),
+  };
+}
+
+export async function getProgress(db: D1Database, userId: string, chapterId: string): Promise<ChapterProgress> {
+  const row = await db.prepare(`
+    SELECT last_message_index, completed_at, updated_at FROM user_chapters WHERE user_id = ? AND chapter_id = ?
+  `).bind(userId, chapterId).first<ProgressRow>();
+  return toProgress(row);
+}
+
+// Progress on a chapter without a user_chapters row (free chapters) creates one without unlocking anything
+function upsertStatement(db: D1Database, write: ProgressWrite, completed: boolean): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO user_chapters (id, user_id, story_id, chapter_id, last_message_index, completed_at, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ${completed ? `datetime('now')` : 'NULL'}, datetime('now'), datetime('now'))
+    ON CONFLICT(user_id, chapter_id) DO UPDATE SET
+      last_message_index = MAX(COALESCE(user_chapters.last_message_index, 0), excluded.last_message_index),
+      completed_at = COALESCE(user_chapters.completed_at, excluded.completed_at),
+      updated_at = datetime('now')
+  `).bind(generateId(), write.userId, write.storyId, write.chapterId, write.lastMessageRead);
+}
+
+export async function saveProgress(db: D1Database, write: ProgressWrite): Promise<ChapterProgress> {
+  await upsertStatement(db, write, false).run();
+  return getProgress(db, write.userId, write.chapterId);
+}
+
+// Marks the chapter read to the end; the read counters and event only count the first completion
+export async function completeChapter(db: D1Database, write: ProgressWrite): Promise<{ progress: ChapterProgress; firstCompletion: boolean }> {
+  const notCompleted = `NOT EXISTS (SELECT 1 FROM user_chapters WHERE user_id = ? AND chapter_id = ? AND completed_at IS NOT NULL)`;
+  const [event] = await db.batch([
+    db.prepare(`
+      INSERT INTO events (user_id, event_type, story_id, chapter_id, platform, timestamp)
+      SELECT ?, 'chapter_completed', ?, ?, 'web', datetime('now')
+      WHERE ${notCompleted}
+    `).bind(write.userId, write.storyId, write.chapterId, write.userId, write.chapterId),
+    db.prepare(`UPDATE chapters SET total_reads = total_reads + 1 WHERE id = ? AND ${notCompleted}`)
+      .bind(write.chapterId, write.userId, write.chapterId),
+    upsertStatement(db, write, true),
+  ]);
+  return { progress: await getProgress(db, write.userId, write.chapterId), firstCompletion: event.meta.changes === 1 };
+}
@@ -0,0 +1,155 @@
+// Promo code redemption
+//
+// A redemption is one PROMO ledger row, its ledger sync, a promo_redemptions row
+// and the code's redemption_count bump, all in one D1 batch. The ledger insert
+// only happens while the code is active, inside its window and under both
+// limits, so concurrent redemptions can't overshoot them. The ledger key is
+// promo_<code id>_<user>_<n>, so a user's nth redemption can only land once.
+// Codes with credits_expire_days set write expires_at, so the credits expire as a lot.
+
+import { generateId } from './crypto';
+import { BALANCE_SQL, ledgerSyncStatements, newTransactionId } from './ledger';
+
+export type PromoCodeRow = {
+  id: string;
+  code: string;
+  credits: number;
+  credits_expire_days: number | null;
+  max_redemptions: number | null;
+  per_user_limit: number;
+  redemption_count: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  story_id: string | null;
+  description: string | null;
+  is_active: number;
+  created_by: string | null;
+  created_at: string;
+  deactivated_at: string | null;
+};
+
+export type RedeemRequest = {
+  userId: string;
+  code: string;
+  storyId?: string; // story the reader is redeeming from, for story-restricted codes
+};
+
+export type RedeemOutcome =
+  | { status: 'redeemed'; transactionId: string; credits: number; balance: number; storyId: string | null }
+  | { status: 'already_redeemed'; transactionId: string; credits: number } // per-user limit reached
+  | { status: 'not_found' }
+  | { status: 'inactive' } // deactivated, not started yet or ended
+  | { status: 'wrong_story'; storyId: string }
+  | { status: 'exhausted' }; // max_redemptions reached
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Codes are what readers type; keep them short and unambiguous
+export function isValidPromoCode(code: string): boolean {
+  return /^[A-Z0-9_-]{3,32}$/.test(code);
+}
+
+const IN_WINDOW_SQL = `
+  (p.starts_at IS NULL OR p.starts_at <= datetime('now'))
+  AND (p.ends_at IS NULL OR p.ends_at > datetime('now'))
+`;
+
+async function lastRedemption(db: D1Database, codeId: string, userId: string) {
+  return db.prepare(`
+    SELECT r.transaction_id, t.credits_amount
+    FROM promo_redemptions r
+    JOIN credit_transactions t ON t.transaction_id = r.transaction_id
+    WHERE r.promo_code_id = ? AND r.user_id = ?
+    ORDER BY r.created_at DESC
+    LIMIT 1
+  `).bind(codeId, userId).first<{ transaction_id: string; credits_amount: number }>();
+}
+
+async function redemptionState(db: D1Database, codeId: string, userId: string) {
+  return db.prepare(`
+    SELECT p.*,
+           (${IN_WINDOW_SQL}) AS in_window,
+           (SELECT COUNT(*) FROM promo_redemptions WHERE promo_code_id = p.id AND user_id = ?) AS user_redemptions
+    FROM promo_codes p
+    WHERE p.id = ?
+  `).bind(userId, codeId).first<PromoCodeRow & { in_window: number; user_redemptions: number }>();
+}
+
+export async function redeemPromoCode(db: D1Database, req: RedeemRequest): Promise<RedeemOutcome> {
+  const found = await db.prepare(`SELECT id FROM promo_codes WHERE code = ?`)
+    .bind(normalizePromoCode(req.code)).first<{ id: string }>();
+  if (!found) return { status: 'not_found' };
+
+  // Explains why a redemption can't land, or returns null along with the user's redemption count
+  const check = async (): Promise<{ rejected: RedeemOutcome | null; userRedemptions: number }> => {
+    const state = await redemptionState(db, found.id, req.userId);
+    if (!state) return { rejected: { status: 'not_found' }, userRedemptions: 0 };
+    const reject = (rejected: RedeemOutcome) => ({ rejected, userRedemptions: state.user_redemptions });
+    if (state.user_redemptions >= state.per_user_limit) {
+      const previous = await lastRedemption(db, found.id, req.userId);
+      if (previous) return reject({ status: 'already_redeemed', transactionId: previous.transaction_id, credits: previous.credits_amount });
+    }
+    if (state.is_active !== 1 || state.in_window !== 1) return reject({ status: 'inactive' });
+    if (state.story_id && state.story_id !== req.storyId) return reject({ status: 'wrong_story', storyId: state.story_id });
+    if (state.max_redemptions !== null && state.redemption_count >= state.max_redemptions) return reject({ status: 'exhausted' });
+    return { rejected: null, userRedemptions: state.user_redemptions };
+  };
+
+  const { rejected, userRedemptions } = await check();
+  if (rejected) return rejected;
+
+  const transactionId = newTransactionId();
+  const key = `promo_${found.id}_${req.userId}_${userRedemptions + 1}`;
+
+  let inserted: D1Result;
+  try {
+    [inserted] = await db.batch([
+      db.prepare(`
+        INSERT INTO credit_transactions (
+          transaction_id, user_id, transaction_type, credits_amount, balance_after,
+          story_id, idempotency_key, reason, metadata, expires_at, created_at
+        )
+        SELECT ?, ?, 'PROMO', p.credits, (${BALANCE_SQL}) + p.credits,
+               p.story_id, ?, 'Promo code ' || p.code, json_object('promoCodeId', p.id, 'code', p.code),
+               CASE WHEN p.credits_expire_days IS NULL THEN NULL ELSE datetime('now', '+' || p.credits_expire_days || ' days') END,
+               datetime('now')
+        FROM promo_codes p
+        WHERE p.id = ? AND p.is_active = 1 AND ${IN_WINDOW_SQL}
+          AND (p.max_redemptions IS NULL OR p.redemption_count < p.max_redemptions)
+          AND (SELECT COUNT(*) FROM promo_redemptions WHERE promo_code_id = p.id AND user_id = ?) < p.per_user_limit
+      `).bind(transactionId, req.userId, req.userId, key, found.id, req.userId),
+      ...ledgerSyncStatements(db, transactionId),
+      db.prepare(`
+        INSERT INTO promo_redemptions (id, promo_code_id, user_id, transaction_id, created_at)
+        SELECT ?, ?, user_id, transaction_id, datetime('now')
+        FROM credit_transactions WHERE transaction_id = ?
+      `).bind(generateId(), found.id, transactionId),
+      db.prepare(`
+        UPDATE promo_codes SET redemption_count = redemption_count + 1
+        WHERE id = ? AND EXISTS (SELECT 1 FROM credit_transactions WHERE transaction_id = ?)
+      `).bind(found.id, transactionId),
+      db.prepare(`
+        INSERT INTO events (user_id, event_type, story_id, credits_delta, metadata, platform, timestamp)
+        SELECT user_id, 'promo_redeemed', story_id, credits_amount, metadata, 'web', datetime('now')
+        FROM credit_transactions WHERE transaction_id = ?
+      `).bind(transactionId),
+    ]);
+  } catch (error: any) {
+    // A concurrent request took the same redemption slot; report it like a retry
+    if (String(error?.message).includes('UNIQUE')) {
+      const { rejected: raced } = await check();
+      if (raced) return raced;
+    }
+    throw error;
+  }
+
+  if (inserted.meta.changes !== 1) {
+    return (await check()).rejected ?? { status: 'inactive' };
+  }
+
+  const row = await db.prepare(`SELECT credits_amount, balance_after, story_id FROM credit_transactions WHERE transaction_id = ?`)
+    .bind(transactionId).first<{ credits_amount: number; balance_after: number; story_id: string | null }>();
+  return { status: 'redeemed', transactionId, credits: row!.credits_amount, balance: row!.balance_after, storyId: row!.story_id };
+}
@@ -0,0 +1,107 @@
+// Rate limit counter stores
+//
+// The limiter uses a sliding window counter: the previous fixed window's count,
+// weighted by how much of it still overlaps the sliding window, plus the current
+// window's count. Each store reports both counts for a key in one `hit`, after
+// incrementing the current window.
+//
+//   MemoryRateLimitStore       - per-isolate, atomic; tests and local dev
+//   DurableObjectRateLimitStore - one Durable Object per key, atomic in production
+//   KVRateLimitStore           - fallback when no Durable Object binding exists;
+//                                KV has no compare-and-swap, so bursts can overshoot
+
+import { DurableObject } from 'cloudflare:workers';
+
+export type WindowCounts = {
+  previous: number;
+  current: number;
+};
+
+export interface RateLimitStore {
+  hit(key: string, windowSeconds: number, now: number): Promise<WindowCounts>;
+}
+
+function windowIndex(now: number, windowSeconds: number): number {
+  return Math.floor(now / (windowSeconds * 1000));
+}
+
+type Counter = { value: number; expiresAt: number };
+
+// Shared by the memory store and the Durable Object, which are both single-threaded
+class CounterMap {
+  private counters = new Map<string, Counter>();
+
+  hit(key: string, windowSeconds: number, now: number): WindowCounts {
+    const index = windowIndex(now, windowSeconds);
+    const currentKey = `${key}:${index}`;
+    const previous = this.read(`${key}:${index - 1}`, now);
+    const current = this.read(currentKey, now) + 1;
+    this.counters.set(currentKey, { value: current, expiresAt: now + windowSeconds * 2000 });
+    if (this.counters.size > 10000) this.sweep(now);
+    return { previous, current };
+  }
+
+  clear(): void {
+    this.counters.clear();
+  }
+
+  private read(key: string, now: number): number {
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= now) return 0;
+    return counter.value;
+  }
+
+  private sweep(now: number): void {
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new CounterMap();
+
+  async hit(key: string, windowSeconds: number, now: number): Promise<WindowCounts> {
+    return this.counters.hit(key, windowSeconds, now);
+  }
+
+  reset(): void {
+    this.counters.clear();
+  }
+}
+
+export class KVRateLimitStore implements RateLimitStore {
+  constructor(private kv: KVNamespace) {}
+
+  async hit(key: string, windowSeconds: number, now: number): Promise<WindowCounts> {
+    const index = windowIndex(now, windowSeconds);
+    const [previousRaw, currentRaw] = await Promise.all([
+      this.kv.get(`rl:${key}:${index - 1}`),
+      this.kv.get(`rl:${key}:${index}`),
+    ]);
+    const current = (currentRaw ? parseInt(currentRaw, 10) : 0) + 1;
+    // KV requires a TTL of at least 60s; keep the window around long enough to be "previous"
+    await this.kv.put(`rl:${key}:${index}`, String(current), {
+      expirationTtl: Math.max(60, windowSeconds * 2),
+    });
+    return { previous: previousRaw ? parseInt(previousRaw, 10) : 0, current };
+  }
+}
+
+// Durable Object holding the counters for the keys routed to it
+export class RateLimitCounter extends DurableObject {
+  private counters = new CounterMap();
+
+  async hit(key: string, windowSeconds: number, now: number): Promise<WindowCounts> {
+    return this.counters.hit(key, windowSeconds, now);
+  }
+}
+
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  constructor(private namespace: DurableObjectNamespace<RateLimitCounter>) {}
+
+  async hit(key: string, windowSeconds: number, now: number): Promise<WindowCounts> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    return stub.hit(key, windowSeconds, now);
+  }
+}
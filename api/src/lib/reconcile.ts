@@ -0,0 +1,94 @@
+// Balance reconciliation (scheduled)
+//
+// Recomputes every user's balance from credit_transactions and compares it with
+// user_balances. Drifted rows are corrected to the ledger value, recorded in
+// balance_drift_reports and emailed to admins.
+
+import type { Env } from '../index';
+import { generateId } from './crypto';
+import { LEDGER_BALANCE_SQL, SIGNED_AMOUNT_SQL } from './ledger';
+import { getMailTransport } from './mail';
+
+export type BalanceDrift = {
+  userId: string;
+  materializedBalance: number | null;
+  ledgerBalance: number;
+  drift: number;
+};
+
+export type ReconciliationResult = {
+  runId: string;
+  drifts: BalanceDrift[];
+};
+
+// Users whose materialized balance is missing or differs from the ledger, plus
+// balance rows left behind for users with no ledger entries
+async function findDrift(db: D1Database): Promise<BalanceDrift[]> {
+  const result = await db.prepare(`
+    WITH ledger AS (
+      SELECT user_id, SUM(${SIGNED_AMOUNT_SQL}) AS balance
+      FROM credit_transactions
+      GROUP BY user_id
+    )
+    SELECT l.user_id, b.balance AS materialized, l.balance AS ledger
+    FROM ledger l
+    LEFT JOIN user_balances b ON b.user_id = l.user_id
+    WHERE b.balance IS NULL OR b.balance != l.balance
+    UNION ALL
+    SELECT b.user_id, b.balance, 0
+    FROM user_balances b
+    WHERE b.balance != 0 AND NOT EXISTS (SELECT 1 FROM ledger l WHERE l.user_id = b.user_id)
+  `).all<{ user_id: string; materialized: number | null; ledger: number }>();
+
+  return (result.results || []).map(r => ({
+    userId: r.user_id,
+    materializedBalance: r.materialized,
+    ledgerBalance: r.ledger,
+    drift: (r.materialized ?? 0) - r.ledger,
+  }));
+}
+
+async function notifyAdmins(env: Env, runId: string, drifts: BalanceDrift[]): Promise<void> {
+  const admins = await env.DB
+    .prepare('SELECT email FROM users WHERE is_admin = 1 AND suspended_at IS NULL')
+    .all<{ email: string }>();
+
+  const lines = drifts.map(d =>
+    `${d.userId}: materialized ${d.materializedBalance ?? 'missing'}, ledger ${d.ledgerBalance} (drift ${d.drift})`
+  );
+  const text = `Balance reconciliation ${runId} corrected ${drifts.length} user balance(s) to match the ledger:\n\n${lines.join('\n')}`;
+
+  const transport = getMailTransport(env);
+  for (const admin of admins.results || []) {
+    await transport.send({ to: admin.email, subject: `[StoryChat] Balance drift in ${drifts.length} account(s)`, text });
+  }
+}
+
+export async function reconcileBalances(env: Env): Promise<ReconciliationResult> {
+  const db = env.DB;
+  const runId = `recon_${generateId()}`;
+  const drifts = await findDrift(db);
+
+  if (drifts.length === 0) {
+    return { runId, drifts };
+  }
+
+  // The corrected value is recomputed inside each upsert, so writes that land
+  // between the scan and the fix are not lost
+  await db.batch(drifts.flatMap(d => [
+    db.prepare(`
+      INSERT INTO balance_drift_reports (run_id, user_id, materialized_balance, ledger_balance, drift, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(runId, d.userId, d.materializedBalance, d.ledgerBalance, d.drift),
+    db.prepare(`
+      INSERT INTO user_balances (user_id, balance, updated_at)
+      VALUES (?, (${LEDGER_BALANCE_SQL}), datetime('now'))
+      ON CONFLICT(user_id) DO UPDATE SET balance = excluded.balance, updated_at = excluded.updated_at
+    `).bind(d.userId, d.userId),
+  ]));
+
+  console.warn(`[Reconcile] ${runId}: corrected ${drifts.length} drifted balance(s)`);
+  await notifyAdmins(env, runId, drifts);
+
+  return { runId, drifts };
+}
@@ -0,0 +1,147 @@
+// Session storage for StoryChat API (SESSIONS KV namespace)
+//
+// Keys:
+//   session:<sessionId>               -> SessionData, checked on every authenticated request
+//   user_session:<userId>:<sessionId> -> listing index (metadata only) for device management
+//   refresh:<sha256(refreshToken)>    -> { userId, sessionId }
+
+import { generateToken } from './crypto';
+
+// Sessions slide forward on every refresh; idle for this long and the reader must log in again
+export const SESSION_TTL_SECONDS = 30 * 86400;
+
+export type ClientInfo = {
+  userAgent: string | null;
+  ip: string | null;
+};
+
+export type SessionData = ClientInfo & {
+  userId: string;
+  createdAt: number;
+  lastSeenAt: number;
+  refreshHash: string;
+};
+
+export type SessionInfo = ClientInfo & {
+  sessionId: string;
+  createdAt: number;
+  lastSeenAt: number;
+};
+
+type SessionMetadata = ClientInfo & { createdAt: number; lastSeenAt: number };
+
+async function hashRefreshToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function writeSession(kv: KVNamespace, sessionId: string, data: SessionData): Promise<void> {
+  const metadata: SessionMetadata = {
+    userAgent: data.userAgent,
+    ip: data.ip,
+    createdAt: data.createdAt,
+    lastSeenAt: data.lastSeenAt,
+  };
+  await Promise.all([
+    kv.put(`session:${sessionId}`, JSON.stringify(data), { expirationTtl: SESSION_TTL_SECONDS }),
+    kv.put(`user_session:${data.userId}:${sessionId}`, '', { expirationTtl: SESSION_TTL_SECONDS, metadata }),
+    kv.put(`refresh:${data.refreshHash}`, JSON.stringify({ userId: data.userId, sessionId }), { expirationTtl: SESSION_TTL_SECONDS }),
+  ]);
+}
+
+// Create a new session and its first refresh token
+export async function createSession(
+  kv: KVNamespace,
+  sessionId: string,
+  userId: string,
+  client: ClientInfo
+): Promise<{ refreshToken: string }> {
+  const refreshToken = generateToken(48);
+  const now = Date.now();
+  await writeSession(kv, sessionId, {
+    userId,
+    createdAt: now,
+    lastSeenAt: now,
+    refreshHash: await hashRefreshToken(refreshToken),
+    ...client,
+  });
+  return { refreshToken };
+}
+
+export async function getSession(kv: KVNamespace, sessionId: string | undefined): Promise<SessionData | null> {
+  if (!sessionId) return null;
+  const raw = await kv.get(`session:${sessionId}`);
+  return raw ? (JSON.parse(raw) as SessionData) : null;
+}
+
+// Exchange a refresh token for a new one (single use) and extend the session.
+// Returns null if the token is unknown or its session has been revoked.
+export async function rotateRefreshToken(
+  kv: KVNamespace,
+  refreshToken: string,
+  client: ClientInfo
+): Promise<{ userId: string; sessionId: string; refreshToken: string } | null> {
+  const oldHash = await hashRefreshToken(refreshToken);
+  const raw = await kv.get(`refresh:${oldHash}`);
+  if (!raw) return null;
+
+  const { sessionId } = JSON.parse(raw) as { userId: string; sessionId: string };
+  const session = await getSession(kv, sessionId);
+  if (!session || session.refreshHash !== oldHash) {
+    await kv.delete(`refresh:${oldHash}`);
+    return null;
+  }
+
+  const nextToken = generateToken(48);
+  await kv.delete(`refresh:${oldHash}`);
+  await writeSession(kv, sessionId, {
+    ...session,
+    ...client,
+    lastSeenAt: Date.now(),
+    refreshHash: await hashRefreshToken(nextToken),
+  });
+
+  return { userId: session.userId, sessionId, refreshToken: nextToken };
+}
+
+export async function revokeSession(kv: KVNamespace, sessionId: string): Promise<void> {
+  const session = await getSession(kv, sessionId);
+  if (!session) return;
+  await Promise.all([
+    kv.delete(`session:${sessionId}`),
+    kv.delete(`user_session:${session.userId}:${sessionId}`),
+    kv.delete(`refresh:${session.refreshHash}`),
+  ]);
+}
+
+export async function listSessions(kv: KVNamespace, userId: string): Promise<SessionInfo[]> {
+  const prefix = `user_session:${userId}:`;
+  const sessions: SessionInfo[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list<SessionMetadata>({ prefix, cursor });
+    for (const key of page.keys) {
+      if (!key.metadata) continue;
+      sessions.push({ sessionId: key.name.slice(prefix.length), ...key.metadata });
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return sessions.sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+}
+
+// Revoke every session for a user, optionally keeping one (e.g. the caller's)
+export async function revokeAllSessions(kv: KVNamespace, userId: string, exceptSessionId?: string): Promise<number> {
+  const sessions = await listSessions(kv, userId);
+  const targets = sessions.filter(s => s.sessionId !== exceptSessionId);
+  await Promise.all(targets.map(s => revokeSession(kv, s.sessionId)));
+  return targets.length;
+}
+
+export function clientInfo(request: Request): ClientInfo {
+  return {
+    userAgent: request.headers.get('User-Agent'),
+    ip: request.headers.get('CF-Connecting-IP'),
+  };
+}
@@ -0,0 +1,111 @@
+// Content management rules (routes/studio.ts)
+//
+// Chapter numbers and message sequence indexes stay contiguous from 1: inserts
+// shift later rows up, deletes close the gap, and every write that adds or
+// removes a chapter refreshes stories.total_chapters in the same batch.
+// Readers only see chapters with published_at set: publishing a story sets it on
+// every chapter, and a chapter added to a published story stays hidden until it
+// is published on its own.
+
+export const STORY_STATUSES = ['DRAFT', 'PUBLISHED', 'ARCHIVED'] as const;
+export type StoryStatus = (typeof STORY_STATUSES)[number];
+
+export const STORY_GENRES = ['THRILLER', 'ROMANCE', 'SCIFI', 'DRAMA', 'MYSTERY'];
+
+export const SENDER_TYPES = ['CHARACTER', 'NARRATOR'];
+export const MEDIA_TYPES = ['image', 'video'];
+
+// Published stories can't go back to draft: readers may already own their chapters
+export const STORY_TRANSITIONS: Record<StoryStatus, StoryStatus[]> = {
+  DRAFT: ['PUBLISHED', 'ARCHIVED'],
+  PUBLISHED: ['ARCHIVED'],
+  ARCHIVED: ['PUBLISHED', 'DRAFT'],
+};
+
+export function isStoryStatus(value: unknown): value is StoryStatus {
+  return STORY_STATUSES.includes(value as StoryStatus);
+}
+
+export function totalChaptersStatement(db: D1Database, storyId: string): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE stories
+    SET total_chapters = (SELECT COUNT(*) FROM chapters WHERE story_id = ?), updated_at = datetime('now')
+    WHERE id = ?
+  `).bind(storyId, storyId);
+}
+
+// Moves chapters numbered `from` and up by `delta`. chapter_number is UNIQUE per story,
+// so rows pass through negative numbers to avoid colliding mid-update.
+export function shiftChaptersStatements(db: D1Database, storyId: string, from: number, delta: number): D1PreparedStatement[] {
+  return [
+    db.prepare(`UPDATE chapters SET chapter_number = -chapter_number WHERE story_id = ? AND chapter_number >= ?`).bind(storyId, from),
+    db.prepare(`UPDATE chapters SET chapter_number = -chapter_number + ? WHERE story_id = ? AND chapter_number < 0`).bind(delta, storyId),
+  ];
+}
+
+export function shiftMessagesStatement(db: D1Database, chapterId: string, from: number, delta: number): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE messages SET sequence_index = sequence_index + ? WHERE chapter_id = ? AND sequence_index >= ?
+  `).bind(delta, chapterId, from);
+}
+
+type ChapterShape = {
+  id: string;
+  chapter_number: number;
+  message_count: number;
+  distinct_indexes: number;
+  first_index: number | null;
+  last_index: number | null;
+};
+
+const CHAPTER_SHAPE_SQL = `
+  SELECT c.id, c.chapter_number,
+         COUNT(m.id) AS message_count,
+         COUNT(DISTINCT m.sequence_index) AS distinct_indexes,
+         MIN(m.sequence_index) AS first_index,
+         MAX(m.sequence_index) AS last_index
+  FROM chapters c
+  LEFT JOIN messages m ON m.chapter_id = c.id
+`;
+
+function messageProblem(ch: ChapterShape): string | null {
+  if (ch.message_count === 0) return `Chapter ${ch.chapter_number} has no messages`;
+  if (ch.first_index !== 1 || ch.last_index !== ch.message_count || ch.distinct_indexes !== ch.message_count) {
+    return `Chapter ${ch.chapter_number} message sequence must run 1..${ch.message_count} without gaps or repeats`;
+  }
+  return null;
+}
+
+// Reasons a story can't be published: empty chapters, or numbering with gaps or duplicates
+export async function findPublishProblems(db: D1Database, storyId: string): Promise<string[]> {
+  const chapters = await db.prepare(`
+    ${CHAPTER_SHAPE_SQL}
+    WHERE c.story_id = ?
+    GROUP BY c.id
+    ORDER BY c.chapter_number
+  `).bind(storyId).all<ChapterShape>();
+
+  const rows = chapters.results || [];
+  if (rows.length === 0) return ['Story has no chapters'];
+
+  const problems: string[] = [];
+  rows.forEach((ch, i) => {
+    if (ch.chapter_number !== i + 1) {
+      problems.push(`Chapter numbers must run 1..${rows.length} without gaps (found ${ch.chapter_number} at position ${i + 1})`);
+    }
+    const problem = messageProblem(ch);
+    if (problem) problems.push(problem);
+  });
+  return problems;
+}
+
+// Same message checks for one chapter added to an already published story
+export async function findChapterPublishProblems(db: D1Database, chapterId: string): Promise<string[]> {
+  const chapter = await db.prepare(`
+    ${CHAPTER_SHAPE_SQL}
+    WHERE c.id = ?
+    GROUP BY c.id
+  `).bind(chapterId).first<ChapterShape>();
+  const problem = chapter && messageProblem(chapter);
+  return problem ? [problem] : [];
+}
@@ -0,0 +1,238 @@
+// Premium subscriptions
+//
+// subscriptions holds each user's current subscription; users.subscription_tier
+// mirrors whether it is live for display and pricing. The credit gate reads the
+// subscription's own period end, so access stops on time rather than whenever the
+// hourly job gets to the lapse.
+// Premium readers get chapters as zero-cost user_chapters grants (unlock_source
+// 'subscription'). When a subscription lapses those grants are locked again;
+// chapters bought with credits are left alone.
+//
+// There is no recurring billing yet: whatever charges the renewal calls
+// startSubscription() again to extend the period. The hourly job lapses
+// subscriptions whose period has ended and pays out monthly stipends.
+
+import type { Env } from '../index';
+import { generateId } from './crypto';
+import { BALANCE_SQL, ledgerSyncStatements, newTransactionId, toSqlDateTime } from './ledger';
+
+export type SubscriptionStatus = 'ACTIVE' | 'CANCELLED' | 'LAPSED';
+
+export type SubscriptionRow = {
+  id: string;
+  user_id: string;
+  tier: string;
+  status: SubscriptionStatus;
+  started_at: string;
+  current_period_start: string;
+  current_period_end: string;
+  monthly_stipend: number;
+  last_stipend_at: string | null;
+  cancelled_at: string | null;
+  lapsed_at: string | null;
+};
+
+export type StartSubscriptionRequest = {
+  userId: string;
+  months: number;
+  monthlyStipend?: number;
+};
+
+// Subscriptions handled per scheduled run; the next run picks up the rest
+const SUBSCRIPTION_BATCH_LIMIT = 500;
+
+// A live subscription's stipend is due again one month after the last one
+const STIPEND_DUE_SQL = `(s.last_stipend_at IS NULL OR s.last_stipend_at <= datetime('now', '-1 month'))`;
+
+function isoDate(value: string | null): string | null {
+  return value ? `${value.replace(' ', 'T')}Z` : null;
+}
+
+export function toSubscription(s: SubscriptionRow) {
+  return {
+    tier: s.tier,
+    status: s.status,
+    renews: s.status === 'ACTIVE',
+    startedAt: isoDate(s.started_at),
+    currentPeriodStart: isoDate(s.current_period_start),
+    currentPeriodEnd: isoDate(s.current_period_end),
+    monthlyStipend: s.monthly_stipend,
+    cancelledAt: isoDate(s.cancelled_at),
+    lapsedAt: isoDate(s.lapsed_at),
+  };
+}
+
+export async function getSubscription(db: D1Database, userId: string): Promise<SubscriptionRow | null> {
+  return db.prepare(`SELECT * FROM subscriptions WHERE user_id = ?`).bind(userId).first<SubscriptionRow>();
+}
+
+export async function isPremium(db: D1Database, userId: string): Promise<boolean> {
+  const live = await db.prepare(`
+    SELECT 1 FROM subscriptions
+    WHERE user_id = ? AND tier = 'premium' AND status != 'LAPSED' AND current_period_end > datetime('now')
+  `).bind(userId).first();
+  return !!live;
+}
+
+// Starts a subscription, restarts a lapsed one, or extends a live one by `months`
+export async function startSubscription(db: D1Database, req: StartSubscriptionRequest): Promise<SubscriptionRow> {
+  const extend = `+${req.months} months`;
+  await db.batch([
+    db.prepare(`
+      INSERT INTO subscriptions (
+        id, user_id, tier, status, started_at, current_period_start, current_period_end,
+        monthly_stipend, created_at, updated_at
+      ) VALUES (?, ?, 'premium', 'ACTIVE', datetime('now'), datetime('now'), datetime('now', ?), ?, datetime('now'), datetime('now'))
+      ON CONFLICT(user_id) DO UPDATE SET
+        status = 'ACTIVE',
+        started_at = CASE WHEN subscriptions.status = 'LAPSED' THEN excluded.started_at ELSE subscriptions.started_at END,
+        current_period_start = CASE WHEN subscriptions.status = 'LAPSED' THEN excluded.current_period_start ELSE subscriptions.current_period_start END,
+        current_period_end = CASE WHEN subscriptions.status = 'LAPSED' THEN excluded.current_period_end
+                                  ELSE datetime(subscriptions.current_period_end, ?) END,
+        monthly_stipend = excluded.monthly_stipend,
+        last_stipend_at = CASE WHEN subscriptions.status = 'LAPSED' THEN NULL ELSE subscriptions.last_stipend_at END,
+        cancelled_at = NULL,
+        lapsed_at = NULL,
+        updated_at = datetime('now')
+    `).bind(`sub_${generateId()}`, req.userId, extend, req.monthlyStipend ?? 0, extend),
+    db.prepare(`UPDATE users SET subscription_tier = 'premium', updated_at = datetime('now') WHERE id = ?`).bind(req.userId),
+    db.prepare(`
+      INSERT INTO events (user_id, event_type, metadata, platform, timestamp)
+      VALUES (?, 'subscription_started', ?, 'web', datetime('now'))
+    `).bind(req.userId, JSON.stringify({ months: req.months, monthlyStipend: req.monthlyStipend ?? 0 })),
+  ]);
+
+  const subscription = (await getSubscription(db, req.userId))!;
+  await grantStipend(db, subscription.id);
+  return (await getSubscription(db, req.userId))!;
+}
+
+// Renewal on/off; the subscription stays live until the end of the paid period either way
+export async function setRenewal(db: D1Database, userId: string, renew: boolean): Promise<SubscriptionRow | null> {
+  await db.prepare(`
+    UPDATE subscriptions
+    SET status = ?, cancelled_at = ${renew ? 'NULL' : `datetime('now')`}, updated_at = datetime('now')
+    WHERE user_id = ? AND status = ?
+  `).bind(renew ? 'ACTIVE' : 'CANCELLED', userId, renew ? 'CANCELLED' : 'ACTIVE').run();
+  return getSubscription(db, userId);
+}
+
+// Ends the paid period now (admin termination); the lapse itself happens in lapseSubscription
+export async function endSubscriptionNow(db: D1Database, userId: string): Promise<boolean> {
+  const subscription = await getSubscription(db, userId);
+  if (!subscription || subscription.status === 'LAPSED') return false;
+  await db.prepare(`
+    UPDATE subscriptions SET current_period_end = datetime('now'), updated_at = datetime('now') WHERE id = ?
+  `).bind(subscription.id).run();
+  return lapseSubscription(db, subscription.id);
+}
+
+// Marks a subscription whose period has ended as lapsed, drops the tier and relocks
+// chapters that were only readable through it
+export async function lapseSubscription(db: D1Database, subscriptionId: string): Promise<boolean> {
+  // The follow-up statements only apply if this batch did the lapse
+  const lapsedAt = toSqlDateTime(new Date());
+  const lapsed = `EXISTS (SELECT 1 FROM subscriptions WHERE id = ? AND status = 'LAPSED' AND lapsed_at = ?)`;
+  const [update] = await db.batch([
+    db.prepare(`
+      UPDATE subscriptions
+      SET status = 'LAPSED', lapsed_at = ?, updated_at = datetime('now')
+      WHERE id = ? AND status != 'LAPSED' AND current_period_end <= datetime('now')
+    `).bind(lapsedAt, subscriptionId),
+    db.prepare(`
+      UPDATE users SET subscription_tier = 'free', updated_at = datetime('now')
+      WHERE id = (SELECT user_id FROM subscriptions WHERE id = ?) AND ${lapsed}
+    `).bind(subscriptionId, subscriptionId, lapsedAt),
+    db.prepare(`
+      UPDATE user_chapters SET unlocked_at = NULL, updated_at = datetime('now')
+      WHERE user_id = (SELECT user_id FROM subscriptions WHERE id = ?) AND unlock_source = 'subscription'
+        AND unlocked_at IS NOT NULL AND ${lapsed}
+    `).bind(subscriptionId, subscriptionId, lapsedAt),
+    db.prepare(`
+      INSERT INTO events (user_id, event_type, metadata, platform, timestamp)
+      SELECT user_id, 'subscription_lapsed', json_object('subscriptionId', id), 'system', datetime('now')
+      FROM subscriptions WHERE id = ? AND status = 'LAPSED' AND lapsed_at = ?
+    `).bind(subscriptionId, lapsedAt),
+  ]);
+  return update.meta.changes === 1;
+}
+
+// Pays the monthly stipend if one is due; the ledger key makes each payout land once
+export async function grantStipend(db: D1Database, subscriptionId: string): Promise<boolean> {
+  const transactionId = newTransactionId();
+  const [granted] = await db.batch([
+    db.prepare(`
+      INSERT INTO credit_transactions (
+        transaction_id, user_id, transaction_type, credits_amount, balance_after,
+        idempotency_key, reason, metadata, created_at
+      )
+      SELECT ?, s.user_id, 'BONUS', s.monthly_stipend, (${BALANCE_SQL}) + s.monthly_stipend,
+             'stipend_' || s.id || '_' || COALESCE(s.last_stipend_at, s.started_at), 'Premium monthly credits',
+             json_object('subscriptionId', s.id), datetime('now')
+      FROM subscriptions s
+      WHERE s.id = ? AND s.status != 'LAPSED' AND s.monthly_stipend > 0
+        AND s.current_period_end > datetime('now') AND ${STIPEND_DUE_SQL}
+    `).bind(transactionId, subscriptionId, subscriptionId),
+    ...ledgerSyncStatements(db, transactionId),
+    db.prepare(`
+      UPDATE subscriptions SET last_stipend_at = datetime('now'), updated_at = datetime('now')
+      WHERE id = ? AND EXISTS (SELECT 1 FROM credit_transactions WHERE transaction_id = ?)
+    `).bind(subscriptionId, transactionId),
+  ]);
+  return granted.meta.changes === 1;
+}
+
+// Zero-cost access to chapters for a premium reader; chapters already unlocked keep their source
+export async function grantSubscriptionAccess(db: D1Database, userId: string, storyId: string, chapterIds: string[]): Promise<void> {
+  if (chapterIds.length === 0) return;
+  await db.batch(chapterIds.flatMap(chapterId => [
+    db.prepare(`
+      INSERT INTO events (user_id, event_type, story_id, chapter_id, credits_delta, metadata, platform, timestamp)
+      SELECT ?, 'chapter_unlocked', ?, ?, 0, json_object('entitlement', 'subscription'), 'web', datetime('now')
+      WHERE NOT EXISTS (SELECT 1 FROM user_chapters WHERE user_id = ? AND chapter_id = ? AND unlocked_at IS NOT NULL)
+    `).bind(userId, storyId, chapterId, userId, chapterId),
+    db.prepare(`
+      INSERT INTO user_chapters (id, user_id, story_id, chapter_id, unlocked_at, unlock_source, created_at)
+      VALUES (?, ?, ?, ?, datetime('now'), 'subscription', datetime('now'))
+      ON CONFLICT(user_id, chapter_id) DO UPDATE SET
+        unlock_source = CASE WHEN user_chapters.unlocked_at IS NULL THEN 'subscription' ELSE user_chapters.unlock_source END,
+        unlocked_at = COALESCE(user_chapters.unlocked_at, excluded.unlocked_at),
+        updated_at = datetime('now')
+    `).bind(generateId(), userId, storyId, chapterId),
+  ]));
+}
+
+export type SubscriptionJobResult = {
+  lapsed: number;
+  stipends: number;
+};
+
+export async function processSubscriptions(env: Env): Promise<SubscriptionJobResult> {
+  const db = env.DB;
+  const due = await db.prepare(`
+    SELECT id, current_period_end <= datetime('now') AS ended
+    FROM subscriptions s
+    WHERE s.status != 'LAPSED'
+      AND (s.current_period_end <= datetime('now') OR (s.monthly_stipend > 0 AND ${STIPEND_DUE_SQL}))
+    ORDER BY s.current_period_end
+    LIMIT ?
+  `).bind(SUBSCRIPTION_BATCH_LIMIT).all<{ id: string; ended: number }>();
+
+  const result: SubscriptionJobResult = { lapsed: 0, stipends: 0 };
+  for (const subscription of due.results || []) {
+    try {
+      if (subscription.ended) {
+        if (await lapseSubscription(db, subscription.id)) result.lapsed++;
+      } else if (await grantStipend(db, subscription.id)) {
+        result.stipends++;
+      }
+    } catch (error) {
+      console.error(`[Subscriptions] Failed to process ${subscription.id}:`, error);
+    }
+  }
+
+  if (result.lapsed > 0 || result.stipends > 0) {
+    console.log(`[Subscriptions] Lapsed ${result.lapsed}, paid ${result.stipends} stipend(s)`);
+  }
+  return result;
+}
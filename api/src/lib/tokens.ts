@@ -0,0 +1,44 @@
+// Single-use tokens (password reset, email verification) stored in KV
+//
+// Only a SHA-256 of the token is used as the key, so a KV dump can't be replayed.
+// Tokens are deleted on first use; the TTL covers the ones never used.
+
+import { generateToken } from './crypto';
+
+export type TokenPurpose = 'password_reset' | 'email_verify';
+
+export const TOKEN_TTL_SECONDS: Record<TokenPurpose, number> = {
+  password_reset: 3600, // 1 hour
+  email_verify: 3 * 86400, // 3 days
+};
+
+async function tokenKey(purpose: TokenPurpose, token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  const hex = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+  return `token:${purpose}:${hex}`;
+}
+
+export async function createOneTimeToken(
+  kv: KVNamespace,
+  purpose: TokenPurpose,
+  userId: string
+): Promise<string> {
+  const token = generateToken(32);
+  await kv.put(await tokenKey(purpose, token), JSON.stringify({ userId, createdAt: Date.now() }), {
+    expirationTtl: TOKEN_TTL_SECONDS[purpose],
+  });
+  return token;
+}
+
+// Returns the owning userId and invalidates the token, or null if unknown/expired/used
+export async function consumeOneTimeToken(
+  kv: KVNamespace,
+  purpose: TokenPurpose,
+  token: string
+): Promise<string | null> {
+  const key = await tokenKey(purpose, token);
+  const raw = await kv.get(key);
+  if (!raw) return null;
+  await kv.delete(key);
+  return (JSON.parse(raw) as { userId: string }).userId;
+}
@@ -0,0 +1,146 @@
+// Reader-facing credit history
+//
+// Ledger rows mapped to the web CreditTransaction shape, with reasons written
+// for readers ("Unlocked The Clue") rather than the stored admin/system text.
+
+import { SIGNED_AMOUNT_SQL } from './ledger';
+
+export const TRANSACTION_TYPES = [
+  'PURCHASE', 'CONSUMPTION', 'REFUND', 'ADMIN_ADD', 'ADMIN_REMOVE', 'BONUS', 'PROMO', 'CHARGEBACK', 'EXPIRE',
+];
+
+// Entries included with GET /api/credits/balance
+export const RECENT_TRANSACTIONS_LIMIT = 10;
+
+export type CreditTransaction = {
+  id: string;
+  type: string;
+  amount: number; // signed: positive adds credits
+  balanceAfter: number;
+  storyId?: string;
+  chapterId?: string;
+  reason?: string;
+  timestamp: string;
+};
+
+export type TransactionFilters = {
+  types?: string[];
+  from?: string;
+  to?: string;
+  cursor?: string;
+  limit: number;
+};
+
+type TransactionRow = {
+  id: number;
+  transaction_id: string;
+  transaction_type: string;
+  credits_amount: number;
+  amount: number;
+  balance_after: number;
+  story_id: string | null;
+  chapter_id: string | null;
+  reason: string | null;
+  metadata: string | null;
+  created_at: string;
+  chapter_title: string | null;
+  chapter_number: number | null;
+  story_title: string | null;
+};
+
+// Cursors are opaque to clients; they wrap the ledger row id
+export function encodeCursor(id: number): string {
+  return btoa(`tx:${id}`);
+}
+
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const [prefix, id] = atob(cursor).split(':');
+    const value = parseInt(id, 10);
+    return prefix === 'tx' && value > 0 ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function chapterLabel(row: TransactionRow): string {
+  if (row.chapter_title) return row.chapter_title;
+  if (row.chapter_number !== null) return `${row.story_title ?? 'Story'} - Chapter ${row.chapter_number}`;
+  return row.story_title ?? 'a chapter';
+}
+
+function readableReason(row: TransactionRow): string {
+  const bundle = !row.chapter_id && row.story_id;
+  const chapterCount = bundle && row.metadata ? (JSON.parse(row.metadata).chapters ?? []).length : 0;
+  const unlocked = bundle ? `${row.story_title ?? 'a story'} (${chapterCount} chapters)` : chapterLabel(row);
+
+  switch (row.transaction_type) {
+    case 'CONSUMPTION':
+      return `Unlocked ${unlocked}`;
+    case 'REFUND':
+      return row.story_id ? `Refunded ${unlocked}` : 'Refund';
+    case 'PURCHASE':
+      return `Purchased ${row.credits_amount} credits`;
+    case 'CHARGEBACK':
+      return 'Purchase reversed';
+    case 'ADMIN_ADD':
+      return 'Credits added by StoryChat';
+    case 'ADMIN_REMOVE':
+      return 'Credits removed by StoryChat';
+    case 'EXPIRE':
+      return 'Credits expired';
+    default:
+      return row.reason || row.transaction_type;
+  }
+}
+
+function toCreditTransaction(row: TransactionRow): CreditTransaction {
+  return {
+    id: row.transaction_id,
+    type: row.transaction_type,
+    amount: row.amount,
+    balanceAfter: row.balance_after,
+    storyId: row.story_id ?? undefined,
+    chapterId: row.chapter_id ?? undefined,
+    reason: readableReason(row),
+    timestamp: `${row.created_at.replace(' ', 'T')}Z`,
+  };
+}
+
+// Newest first; pass the returned nextCursor to fetch the following page
+export async function listTransactions(
+  db: D1Database,
+  userId: string,
+  filters: TransactionFilters
+): Promise<{ transactions: CreditTransaction[]; nextCursor: string | null }> {
+  const before = filters.cursor ? decodeCursor(filters.cursor) : null;
+  const types = filters.types?.length ? filters.types : null;
+
+  const conditions: Array<[string, unknown[]]> = [
+    ['t.user_id = ?', [userId]],
+    ['t.id < ?', before ? [before] : []],
+    [`t.transaction_type IN (${types?.map(() => '?').join(', ')})`, types ?? []],
+    ['t.created_at >= ?', filters.from ? [filters.from] : []],
+    ['t.created_at <= ?', filters.to ? [filters.to] : []],
+  ];
+  const active = conditions.filter(([, params]) => params.length);
+
+  const result = await db.prepare(`
+    SELECT t.id, t.transaction_id, t.transaction_type, t.credits_amount, ${SIGNED_AMOUNT_SQL} AS amount, t.balance_after,
+           t.story_id, t.chapter_id, t.reason, t.metadata, t.created_at,
+           ch.title AS chapter_title, ch.chapter_number, s.title AS story_title
+    FROM credit_transactions t
+    LEFT JOIN chapters ch ON t.chapter_id = ch.id
+    LEFT JOIN stories s ON t.story_id = s.id
+    WHERE ${active.map(([sql]) => sql).join(' AND ')}
+    ORDER BY t.id DESC
+    LIMIT ?
+  `).bind(...active.flatMap(([, params]) => params), filters.limit + 1).all<TransactionRow>();
+
+  const rows = result.results || [];
+  const page = rows.slice(0, filters.limit);
+  return {
+    transactions: page.map(toCreditTransaction),
+    nextCursor: rows.length > filters.limit ? encodeCursor(page[page.length - 1].id) : null,
+  };
+}
@@ -0,0 +1,236 @@
+// Atomic chapter and story-bundle unlocks
+//
+// The ledger debit, its user_balances update and the user_chapters grant go out
+// as one D1 batch, which runs as a single transaction. The debit only inserts while the balance still
+// covers the cost and the chapter isn't already unlocked, and the grant only
+// inserts if that debit row exists, so concurrent unlocks can't overdraw the
+// balance or charge twice for the same chapter.
+
+import { generateId } from './crypto';
+import { BALANCE_SQL, ledgerSyncStatements, newTransactionId } from './ledger';
+
+export type UnlockRequest = {
+  userId: string;
+  storyId: string;
+  chapterId: string;
+  cost: number;
+  // Client-supplied retry key; scoped to the user before it reaches the ledger
+  idempotencyKey?: string;
+  reason?: string;
+};
+
+export type UnlockOutcome =
+  | { status: 'unlocked'; transactionId: string; creditsUsed: number; balance: number; replayed: boolean }
+  | { status: 'already_unlocked' }
+  | { status: 'insufficient'; balance: number }
+  | { status: 'key_conflict' }; // idempotency key was already used for a different chapter
+
+export type StoryUnlockRequest = {
+  userId: string;
+  storyId: string;
+  chapters: { chapterId: string; cost: number }[]; // priced, still-locked chapters
+  cost: number; // bundle total after discount
+  subtotal: number;
+  discountPercent: number;
+  idempotencyKey?: string;
+};
+
+export type StoryUnlockOutcome =
+  | { status: 'unlocked'; transactionId: string; chapterIds: string[]; creditsUsed: number; balance: number; replayed: boolean }
+  | { status: 'stale' } // one of the chapters was unlocked after pricing
+  | { status: 'empty' } // nothing left to unlock
+  | { status: 'insufficient'; balance: number }
+  | { status: 'key_conflict' };
+
+type LedgerRow = {
+  transaction_id: string;
+  story_id: string | null;
+  chapter_id: string | null;
+  credits_amount: number;
+  balance_after: number;
+  metadata: string | null;
+};
+
+function ledgerKey(prefix: string, userId: string, scope: string, idempotencyKey?: string): string {
+  return idempotencyKey ? `${prefix}_${userId}_${idempotencyKey}` : `${prefix}_${userId}_${scope}_${Date.now()}`;
+}
+
+async function findByKey(db: D1Database, key: string): Promise<LedgerRow | null> {
+  return db
+    .prepare(`
+      SELECT transaction_id, story_id, chapter_id, credits_amount, balance_after, metadata
+      FROM credit_transactions WHERE idempotency_key = ?
+    `)
+    .bind(key)
+    .first<LedgerRow>();
+}
+
+function isUniqueViolation(error: any): boolean {
+  return String(error?.message).includes('UNIQUE');
+}
+
+async function balanceAfter(db: D1Database, transactionId: string): Promise<number> {
+  const row = await db
+    .prepare(`SELECT balance_after FROM credit_transactions WHERE transaction_id = ?`)
+    .bind(transactionId)
+    .first<{ balance_after: number }>();
+  return row?.balance_after ?? 0;
+}
+
+// Runs a guarded debit batch; a concurrent request that won the same key is replayed instead of
+// failing, whether it surfaces as a UNIQUE violation or as the guard skipping the insert
+async function runDebit<T>(
+  db: D1Database,
+  statements: D1PreparedStatement[],
+  key: string,
+  idempotencyKey: string | undefined,
+  replay: (row: LedgerRow) => T
+): Promise<{ changed: boolean } | { replayed: T }> {
+  try {
+    const [debit] = await db.batch(statements);
+    if (debit.meta.changes === 1) return { changed: true };
+  } catch (error) {
+    if (idempotencyKey && isUniqueViolation(error)) {
+      const previous = await findByKey(db, key);
+      if (previous) return { replayed: replay(previous) };
+    }
+    throw error;
+  }
+  if (idempotencyKey) {
+    const previous = await findByKey(db, key);
+    if (previous) return { replayed: replay(previous) };
+  }
+  return { changed: false };
+}
+
+function grantStatement(db: D1Database, userId: string, storyId: string, chapterId: string, transactionId: string): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO user_chapters (id, user_id, story_id, chapter_id, unlocked_at, unlock_source, created_at)
+    SELECT ?, ?, ?, ?, datetime('now'), 'credits', datetime('now')
+    WHERE EXISTS (SELECT 1 FROM credit_transactions WHERE transaction_id = ?)
+    ON CONFLICT(user_id, chapter_id) DO UPDATE SET
+      unlocked_at = excluded.unlocked_at, unlock_source = excluded.unlock_source, updated_at = datetime('now')
+  `).bind(generateId(), userId, storyId, chapterId, transactionId);
+}
+
+function replayChapter(row: LedgerRow, chapterId: string): UnlockOutcome {
+  if (row.chapter_id !== chapterId) return { status: 'key_conflict' };
+  return { status: 'unlocked', transactionId: row.transaction_id, creditsUsed: row.credits_amount, balance: row.balance_after, replayed: true };
+}
+
+export async function unlockChapter(db: D1Database, req: UnlockRequest): Promise<UnlockOutcome> {
+  const key = ledgerKey('unlock', req.userId, req.chapterId, req.idempotencyKey);
+
+  // A retried request returns the original result instead of charging again
+  if (req.idempotencyKey) {
+    const previous = await findByKey(db, key);
+    if (previous) return replayChapter(previous, req.chapterId);
+  }
+
+  const transactionId = newTransactionId();
+  const result = await runDebit(db, [
+    db.prepare(`
+      INSERT INTO credit_transactions (
+        transaction_id, user_id, transaction_type, credits_amount, balance_after,
+        story_id, chapter_id, idempotency_key, reason, created_at
+      )
+      SELECT ?, ?, 'CONSUMPTION', ?, b.balance - ?, ?, ?, ?, ?, datetime('now')
+      FROM (SELECT (${BALANCE_SQL}) AS balance) b
+      WHERE b.balance >= ?
+        AND NOT EXISTS (
+          SELECT 1 FROM user_chapters WHERE user_id = ? AND chapter_id = ? AND unlocked_at IS NOT NULL
+        )
+    `).bind(
+      transactionId, req.userId, req.cost, req.cost, req.storyId, req.chapterId, key,
+      req.reason || 'Unlock chapter', req.userId, req.cost, req.userId, req.chapterId
+    ),
+    ...ledgerSyncStatements(db, transactionId),
+    grantStatement(db, req.userId, req.storyId, req.chapterId, transactionId),
+  ], key, req.idempotencyKey, row => replayChapter(row, req.chapterId));
+
+  if ('replayed' in result) return result.replayed;
+  if (result.changed) {
+    return { status: 'unlocked', transactionId, creditsUsed: req.cost, balance: await balanceAfter(db, transactionId), replayed: false };
+  }
+
+  // The guard rejected the debit: either another request unlocked it first or the balance is short
+  const state = await db
+    .prepare(`
+      SELECT
+        (SELECT 1 FROM user_chapters WHERE user_id = ? AND chapter_id = ? AND unlocked_at IS NOT NULL) AS unlocked,
+        (${BALANCE_SQL}) AS balance
+    `)
+    .bind(req.userId, req.chapterId, req.userId)
+    .first<{ unlocked: number | null; balance: number }>();
+
+  if (state?.unlocked) return { status: 'already_unlocked' };
+  return { status: 'insufficient', balance: state?.balance ?? 0 };
+}
+
+function replayStory(row: LedgerRow, storyId: string): StoryUnlockOutcome {
+  if (row.story_id !== storyId || row.chapter_id !== null) return { status: 'key_conflict' };
+  const metadata = row.metadata ? JSON.parse(row.metadata) : {};
+  const chapterIds = (metadata.chapters || []).map((ch: { chapterId: string }) => ch.chapterId);
+  return { status: 'unlocked', transactionId: row.transaction_id, chapterIds, creditsUsed: row.credits_amount, balance: row.balance_after, replayed: true };
+}
+
+// One CONSUMPTION row for the whole bundle (chapter_id NULL, per-chapter prices in metadata)
+// plus a user_chapters grant per chapter, in a single batch
+export async function unlockStory(db: D1Database, req: StoryUnlockRequest): Promise<StoryUnlockOutcome> {
+  const key = ledgerKey('unlock_story', req.userId, req.storyId, req.idempotencyKey);
+
+  if (req.idempotencyKey) {
+    const previous = await findByKey(db, key);
+    if (previous) return replayStory(previous, req.storyId);
+  }
+  if (req.chapters.length === 0) return { status: 'empty' };
+
+  const chapterIds = req.chapters.map(ch => ch.chapterId);
+  const placeholders = chapterIds.map(() => '?').join(', ');
+  const metadata = JSON.stringify({
+    bundle: true,
+    subtotal: req.subtotal,
+    discountPercent: req.discountPercent,
+    chapters: req.chapters,
+  });
+
+  const transactionId = newTransactionId();
+  const result = await runDebit(db, [
+    db.prepare(`
+      INSERT INTO credit_transactions (
+        transaction_id, user_id, transaction_type, credits_amount, balance_after,
+        story_id, idempotency_key, reason, metadata, created_at
+      )
+      SELECT ?, ?, 'CONSUMPTION', ?, b.balance - ?, ?, ?, 'Unlock story bundle', ?, datetime('now')
+      FROM (SELECT (${BALANCE_SQL}) AS balance) b
+      WHERE b.balance >= ?
+        AND NOT EXISTS (
+          SELECT 1 FROM user_chapters
+          WHERE user_id = ? AND chapter_id IN (${placeholders}) AND unlocked_at IS NOT NULL
+        )
+    `).bind(
+      transactionId, req.userId, req.cost, req.cost, req.storyId, key, metadata,
+      req.userId, req.cost, req.userId, ...chapterIds
+    ),
+    ...ledgerSyncStatements(db, transactionId),
+    ...chapterIds.map(chapterId => grantStatement(db, req.userId, req.storyId, chapterId, transactionId)),
+  ], key, req.idempotencyKey, row => replayStory(row, req.storyId));
+
+  if ('replayed' in result) return result.replayed;
+  if (result.changed) {
+    return { status: 'unlocked', transactionId, chapterIds, creditsUsed: req.cost, balance: await balanceAfter(db, transactionId), replayed: false };
+  }
+
+  const state = await db
+    .prepare(`
+      SELECT
+        (SELECT 1 FROM user_chapters
+         WHERE user_id = ? AND chapter_id IN (${placeholders}) AND unlocked_at IS NOT NULL LIMIT 1) AS unlocked,
+        (${BALANCE_SQL}) AS balance
+    `)
+    .bind(req.userId, ...chapterIds, req.userId)
+    .first<{ unlocked: number | null; balance: number }>();
+
+  if (state?.unlocked) return { status: 'stale' };
+  return { status: 'insufficient', balance: state?.balance ?? 0 };
+}
@@ -0,0 +1,230 @@
+// Media uploads (MEDIA_BUCKET + media_objects)
+//
+// Uploads are stored under content-addressed keys (media/<sha256>.<ext>), so the
+// same image uploaded twice is one object. The type is checked against the file's
+// own bytes, and dimensions are read from the image header. Workers can't decode
+// images, so the uploader must compute the blurhash placeholder (the browser
+// already has the decoded image) and uploads without a valid one are rejected.
+// Objects that no story, character or message references are removed by the
+// daily cron once the grace period has passed.
+
+import type { Env } from '../index';
+
+const DEFAULT_MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// Uploads get this long to be linked to a row before they count as garbage
+const GC_GRACE_HOURS = 24;
+
+// Objects removed per run; the next run picks up the rest
+const GC_BATCH_LIMIT = 100;
+
+export const UPLOAD_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export type MediaObjectRow = {
+  key: string;
+  content_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  blurhash: string;
+};
+
+export type MediaObject = {
+  key: string;
+  contentType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  blurhash: string;
+};
+
+export function toMediaObject(row: MediaObjectRow): MediaObject {
+  return {
+    key: row.key,
+    contentType: row.content_type,
+    size: row.size_bytes,
+    width: row.width,
+    height: row.height,
+    blurhash: row.blurhash,
+  };
+}
+
+export function maxUploadBytes(env: Env): number {
+  return parseInt(env.MEDIA_MAX_UPLOAD_BYTES || '', 10) || DEFAULT_MAX_UPLOAD_BYTES;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((b, i) => bytes[offset + i] === b);
+}
+
+function ascii(text: string): number[] {
+  return [...text].map(ch => ch.charCodeAt(0));
+}
+
+// Content type from the file's magic bytes, or null if it isn't an accepted image
+export function sniffImageType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  return null;
+}
+
+function jpegDimensions(view: DataView): [number, number] | null {
+  let offset = 2;
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC), carry the frame size
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return [view.getUint16(offset + 7), view.getUint16(offset + 5)];
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+function webpDimensions(bytes: Uint8Array, view: DataView): [number, number] | null {
+  if (bytes.length < 30) return null;
+  if (startsWith(bytes, ascii('VP8 '), 12)) {
+    return [view.getUint16(26, true) & 0x3fff, view.getUint16(28, true) & 0x3fff];
+  }
+  if (startsWith(bytes, ascii('VP8L'), 12)) {
+    const [b0, b1, b2, b3] = bytes.subarray(21, 25);
+    return [1 + (((b1 & 0x3f) << 8) | b0), 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))];
+  }
+  if (startsWith(bytes, ascii('VP8X'), 12)) {
+    const u24 = (at: number) => bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16);
+    return [1 + u24(24), 1 + u24(27)];
+  }
+  return null;
+}
+
+// [width, height] from the image header, or null if the header is truncated or unknown
+export function imageDimensions(bytes: Uint8Array, contentType: string): [number, number] | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    switch (contentType) {
+      case 'image/png':
+        return bytes.length >= 24 ? [view.getUint32(16), view.getUint32(20)] : null;
+      case 'image/gif':
+        return bytes.length >= 10 ? [view.getUint16(6, true), view.getUint16(8, true)] : null;
+      case 'image/jpeg':
+        return jpegDimensions(view);
+      case 'image/webp':
+        return webpDimensions(bytes, view);
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+const BASE83 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+// A blurhash encodes its component counts in the first character, which fixes its length
+export function isValidBlurhash(hash: string): boolean {
+  if (hash.length < 6 || [...hash].some(ch => !BASE83.includes(ch))) return false;
+  const sizeFlag = BASE83.indexOf(hash[0]);
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  const componentsX = (sizeFlag % 9) + 1;
+  return hash.length === 4 + 2 * componentsX * componentsY;
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export type UploadInput = {
+  userId: string;
+  bytes: Uint8Array;
+  contentType: string; // already checked with sniffImageType
+  blurhash: string;
+};
+
+// Stores the object once per content hash; a repeat upload refreshes the GC grace period
+export async function storeUpload(env: Env, input: UploadInput): Promise<MediaObject> {
+  const key = `media/${await sha256Hex(input.bytes)}.${UPLOAD_TYPES[input.contentType]}`;
+  const dimensions = imageDimensions(input.bytes, input.contentType);
+
+  const existing = await env.DB.prepare('SELECT key FROM media_objects WHERE key = ?').bind(key).first();
+  if (!existing || !(await env.MEDIA_BUCKET.head(key))) {
+    await env.MEDIA_BUCKET.put(key, input.bytes, {
+      httpMetadata: { contentType: input.contentType },
+      customMetadata: { uploadedBy: input.userId },
+    });
+  }
+
+  await env.DB.prepare(`
+    INSERT INTO media_objects (key, content_type, size_bytes, width, height, blurhash, uploaded_by, created_at, uploaded_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+    ON CONFLICT(key) DO UPDATE SET
+      blurhash = excluded.blurhash,
+      uploaded_at = datetime('now')
+  `).bind(
+    key, input.contentType, input.bytes.length, dimensions?.[0] ?? null, dimensions?.[1] ?? null,
+    input.blurhash, input.userId
+  ).run();
+
+  const row = await env.DB.prepare('SELECT * FROM media_objects WHERE key = ?').bind(key).first<MediaObjectRow>();
+  return toMediaObject(row!);
+}
+
+const UNREFERENCED_SQL = `
+  NOT EXISTS (SELECT 1 FROM stories WHERE cover_image_key = media_objects.key)
+  AND NOT EXISTS (SELECT 1 FROM characters WHERE avatar_key = media_objects.key)
+  AND NOT EXISTS (SELECT 1 FROM messages WHERE media_key = media_objects.key)
+`;
+
+export type MediaGcResult = {
+  deletedObjects: number;
+};
+
+// Rows go first, still guarded on being unreferenced, so a key linked mid-run is kept; objects
+// are only deleted for keys that still have no row afterwards
+export async function collectUnreferencedMedia(env: Env): Promise<MediaGcResult> {
+  const db = env.DB;
+  const candidates = await db.prepare(`
+    SELECT key FROM media_objects
+    WHERE uploaded_at <= datetime('now', ?) AND ${UNREFERENCED_SQL}
+    ORDER BY uploaded_at
+    LIMIT ?
+  `).bind(`-${GC_GRACE_HOURS} hours`, GC_BATCH_LIMIT).all<{ key: string }>();
+
+  const keys = (candidates.results || []).map(row => row.key);
+  if (keys.length === 0) return { deletedObjects: 0 };
+
+  const deleted = await db.prepare(`
+    DELETE FROM media_objects
+    WHERE key IN (${keys.map(() => '?').join(', ')})
+      AND uploaded_at <= datetime('now', ?) AND ${UNREFERENCED_SQL}
+    RETURNING key
+  `).bind(...keys, `-${GC_GRACE_HOURS} hours`).all<{ key: string }>();
+
+  // A re-upload of the same bytes between the two deletes inserts a fresh row for the key;
+  // its object has to stay
+  let deletedKeys = (deleted.results || []).map(row => row.key);
+  if (deletedKeys.length > 0) {
+    const reuploaded = await db.prepare(`
+      SELECT key FROM media_objects WHERE key IN (${deletedKeys.map(() => '?').join(', ')})
+    `).bind(...deletedKeys).all<{ key: string }>();
+    const kept = new Set((reuploaded.results || []).map(row => row.key));
+    deletedKeys = deletedKeys.filter(key => !kept.has(key));
+  }
+  if (deletedKeys.length > 0) {
+    await env.MEDIA_BUCKET.delete(deletedKeys);
+    console.log(`[MediaGC] Deleted ${deletedKeys.length} unreferenced object(s)`);
+  }
+  return { deletedObjects: deletedKeys.length };
+}
@@ -1,6 +1,9 @@
-// Authentication middleware
+// Authentication middleware (Hono)
 
-import { verifyJWT, type Env, createCORSResponse } from '../index';
+import { createMiddleware } from 'hono/factory';
+import type { Env } from '../index';
+import { verifyAccessToken } from '../lib/jwt';
+import { getSession } from '../lib/sessions';
 
 export type AuthContext = {
   userId: string;
@@ -8,6 +11,12 @@ export type AuthContext = {
   sessionId: string;
 };
 
+// Context variables set by requireAuth / requireAdmin (always present)
+export type AuthEnv = { Bindings: Env; Variables: AuthContext };
+
+// Context variables set by optionalAuth (present only for signed-in readers)
+export type OptionalAuthEnv = { Bindings: Env; Variables: Partial<AuthContext> };
+
 export async function authenticateRequest(
   request: Request,
   env: Env
@@ -18,25 +27,30 @@ export async function authenticateRequest(
   }
 
   const token = authHeader.slice(7);
-  
+
   try {
-    const payload = await verifyJWT(token, env.JWT_SECRET);
-    
-    if (!payload.userId) {
-      return null;
-    }
+    const payload = await verifyAccessToken(env, token);
 
     // Verify session is valid in KV
-    const sessionKey = `session:${payload.sessionId}`;
-    const sessionData = await env.SESSIONS.get(sessionKey);
-    
-    if (!sessionData) {
+    const session = await getSession(env.SESSIONS, payload.sessionId);
+
+    if (!session || session.userId !== payload.userId) {
       return null; // Session expired or revoked
     }
 
+    // Re-check the account so suspensions and admin demotions apply immediately
+    const user = await env.DB
+      .prepare('SELECT is_admin, suspended_at FROM users WHERE id = ?')
+      .bind(payload.userId)
+      .first<{ is_admin: number; suspended_at: string | null }>();
+
+    if (!user || user.suspended_at) {
+      return null;
+    }
+
     return {
       userId: payload.userId,
-      isAdmin: payload.isAdmin === true,
+      isAdmin: user.is_admin === 1,
       sessionId: payload.sessionId
     };
   } catch (error) {
@@ -44,41 +58,36 @@ export async function authenticateRequest(
   }
 }
 
-export async function requireAuth(
-  request: Request,
-  env: Env
-): Promise<{ auth: AuthContext; response?: Response }> {
-  const auth = await authenticateRequest(request, env);
-  
+function setAuth(c: { set: (key: keyof AuthContext, value: AuthContext[keyof AuthContext]) => void }, auth: AuthContext) {
+  c.set('userId', auth.userId);
+  c.set('isAdmin', auth.isAdmin);
+  c.set('sessionId', auth.sessionId);
+}
+
+// Attaches the reader if a valid token is sent, otherwise continues anonymously
+export const optionalAuth = createMiddleware<OptionalAuthEnv>(async (c, next) => {
+  const auth = await authenticateRequest(c.req.raw, c.env);
+  if (auth) setAuth(c, auth);
+  await next();
+});
+
+export const requireAuth = createMiddleware<AuthEnv>(async (c, next) => {
+  const auth = await authenticateRequest(c.req.raw, c.env);
   if (!auth) {
-    return {
-      auth: null as any,
-      response: createCORSResponse({ error: 'Unauthorized' }, 401, env.CORS_ORIGIN)
-    };
+    return c.json({ error: 'Unauthorized' }, 401);
   }
-  
-  return { auth };
-}
+  setAuth(c, auth);
+  await next();
+});
 
-export async function requireAdmin(
-  request: Request,
-  env: Env
-): Promise<{ auth: AuthContext; response?: Response }> {
-  const auth = await authenticateRequest(request, env);
-  
+export const requireAdmin = createMiddleware<AuthEnv>(async (c, next) => {
+  const auth = await authenticateRequest(c.req.raw, c.env);
   if (!auth) {
-    return {
-      auth: null as any,
-      response: createCORSResponse({ error: 'Unauthorized' }, 401, env.CORS_ORIGIN)
-    };
+    return c.json({ error: 'Unauthorized' }, 401);
   }
-  
   if (!auth.isAdmin) {
-    return {
-      auth: null as any,
-      response: createCORSResponse({ error: 'Admin access required' }, 403, env.CORS_ORIGIN)
-    };
+    return c.json({ error: 'Admin access required' }, 403);
   }
-  
-  return { auth };
-}
+  setAuth(c, auth);
+  await next();
+});
@@ -1,52 +1,113 @@
-// Rate limiting middleware using KV
+// Rate limiting middleware (Hono)
+//
+// Limits are configured per route group and can be overridden per environment
+// with RATE_LIMIT_<GROUP> = "<limit>/<windowSeconds>", e.g. RATE_LIMIT_GLOBAL = "100/60".
 
-type RateLimitResult = {
+import type { Context, MiddlewareHandler } from 'hono';
+import type { Env } from '../index';
+import {
+  DurableObjectRateLimitStore,
+  KVRateLimitStore,
+  type RateLimitStore,
+} from '../lib/ratelimit';
+
+export type RateLimitGroup = 'global' | 'credits' | 'admin';
+
+export type RateLimitPolicy = {
+  limit: number;
+  windowSeconds: number;
+};
+
+export type RateLimitResult = {
   allowed: boolean;
+  limit: number;
   remaining: number;
-  resetAt: number;
+  resetSeconds: number; // until the current window rolls over
+};
+
+export const RATE_LIMITS: Record<RateLimitGroup, RateLimitPolicy> = {
+  global: { limit: 100, windowSeconds: 60 }, // per IP
+  credits: { limit: 10, windowSeconds: 60 }, // per user, credit operations
+  admin: { limit: 30, windowSeconds: 60 }, // per admin
+};
+
+const ENV_OVERRIDES: Record<RateLimitGroup, keyof Env> = {
+  global: 'RATE_LIMIT_GLOBAL',
+  credits: 'RATE_LIMIT_CREDITS',
+  admin: 'RATE_LIMIT_ADMIN',
 };
 
+let overrideStore: RateLimitStore | null = null;
+
+// Replace the counter store for every request (tests use MemoryRateLimitStore)
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  overrideStore = store;
+}
+
+export function getRateLimitStore(env: Env): RateLimitStore {
+  if (overrideStore) return overrideStore;
+  if (env.RATE_LIMITER) return new DurableObjectRateLimitStore(env.RATE_LIMITER);
+  return new KVRateLimitStore(env.RATELIMIT);
+}
+
+export function getRateLimitPolicy(env: Env, group: RateLimitGroup): RateLimitPolicy {
+  const override = env[ENV_OVERRIDES[group]];
+  if (typeof override === 'string') {
+    const [limit, windowSeconds] = override.split('/').map(n => parseInt(n, 10));
+    if (limit > 0 && windowSeconds > 0) return { limit, windowSeconds };
+  }
+  return RATE_LIMITS[group];
+}
+
+// Sliding window counter check; the request is counted whether or not it is allowed
 export async function checkRateLimit(
-  kv: KVNamespace,
+  store: RateLimitStore,
   key: string,
-  limit: number,
-  windowSeconds: number
+  policy: RateLimitPolicy,
+  now: number = Date.now()
 ): Promise<RateLimitResult> {
-  const now = Math.floor(Date.now() / 1000);
-  const windowKey = `${key}:${Math.floor(now / windowSeconds)}`;
-  
-  const current = await kv.get(windowKey);
-  const count = current ? parseInt(current, 10) : 0;
-  
-  if (count >= limit) {
-    const resetAt = (Math.floor(now / windowSeconds) + 1) * windowSeconds;
-    return { allowed: false, remaining: 0, resetAt };
-  }
-  
-  // Increment counter
-  await kv.put(windowKey, String(count + 1), { expirationTtl: windowSeconds });
-  
+  const windowMs = policy.windowSeconds * 1000;
+  const { previous, current } = await store.hit(key, policy.windowSeconds, now);
+  const overlap = 1 - (now % windowMs) / windowMs;
+  const estimate = previous * overlap + current;
+
   return {
-    allowed: true,
-    remaining: limit - count - 1,
-    resetAt: (Math.floor(now / windowSeconds) + 1) * windowSeconds
+    allowed: estimate <= policy.limit,
+    limit: policy.limit,
+    remaining: Math.max(0, Math.floor(policy.limit - estimate)),
+    resetSeconds: Math.ceil((windowMs - (now % windowMs)) / 1000),
   };
 }
 
-// Credit-specific stricter rate limit
-export async function checkCreditRateLimit(
-  kv: KVNamespace,
-  userId: string
-): Promise<RateLimitResult> {
-  const key = `credits:${userId}`;
-  return checkRateLimit(kv, key, 10, 60); // 10 credit operations per minute
+type RateLimitOptions = {
+  // Identifies the caller; returning null skips limiting for this request
+  key?: (c: Context<any>) => string | null | undefined;
+};
+
+function clientIp(c: Context): string {
+  return c.req.header('CF-Connecting-IP') || c.req.header('X-Forwarded-For')?.split(',')[0].trim() || 'unknown';
 }
 
-// Admin rate limit (stricter)
-export async function checkAdminRateLimit(
-  kv: KVNamespace,
-  adminUserId: string
-): Promise<RateLimitResult> {
-  const key = `admin:${adminUserId}`;
-  return checkRateLimit(kv, key, 30, 60); // 30 admin operations per minute
+// Groups other than `global` key on the authenticated user, so mount them after requireAuth/requireAdmin
+export function rateLimit(group: RateLimitGroup, options: RateLimitOptions = {}): MiddlewareHandler<{ Bindings: Env }> {
+  const keyFor = options.key ?? ((c: Context<any>) => (group === 'global' ? clientIp(c) : c.get('userId') ?? clientIp(c)));
+
+  return async (c, next) => {
+    const id = keyFor(c);
+    if (!id) return next();
+
+    const policy = getRateLimitPolicy(c.env, group);
+    const result = await checkRateLimit(getRateLimitStore(c.env), `${group}:${id}`, policy);
+
+    c.header('RateLimit-Limit', String(result.limit));
+    c.header('RateLimit-Remaining', String(result.remaining));
+    c.header('RateLimit-Reset', String(result.resetSeconds));
+
+    if (!result.allowed) {
+      c.header('Retry-After', String(result.resetSeconds));
+      return c.json({ error: 'Rate limit exceeded', retryAfter: result.resetSeconds }, 429);
+    }
+
+    await next();
+  };
 }
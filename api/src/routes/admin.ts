@@ -1,212 +1,1120 @@
-// Admin routes: Credit management, analytics
-
-import type { Env } from '../index';
-import { createCORSResponse, parseBody } from '../index';
-import { requireAdmin } from '../middleware/auth';
-import { checkAdminRateLimit, checkRateLimit } from '../middleware/ratelimit';
+/**
+ * Admin Routes - Hono Router
+ * Endpoints: POST /api/admin/credits/add, POST /api/admin/credits/deduct, POST /api/admin/credits/refund,
+ *            GET /api/admin/analytics,
+ *            GET /api/admin/users, GET /api/admin/users/:id, PATCH /api/admin/users/:id,
+ *            POST /api/admin/users/:id/suspend, POST /api/admin/users/:id/unsuspend, GET /api/admin/audit,
+ *            POST /api/admin/users/:id/subscription, DELETE /api/admin/users/:id/subscription,
+ *            GET /api/admin/balances/drift, POST /api/admin/balances/reconcile,
+ *            POST /api/admin/promo-codes, GET /api/admin/promo-codes, POST /api/admin/promo-codes/:id/deactivate
+ * Every mutation writes an admin_audit_log entry (lib/audit.ts).
+ * All routes require an admin token and share the admin rate limit (30/min per admin).
+ */
+import { Hono } from 'hono';
+import { auditStatement, recordAdminAction } from '../lib/audit';
 import { generateId } from '../lib/crypto';
+import { BALANCE_SQL, getBalance, ledgerSyncStatements, newTransactionId, toSqlDateTime } from '../lib/ledger';
+import { isValidPromoCode, normalizePromoCode, type PromoCodeRow } from '../lib/promo';
+import { reconcileBalances } from '../lib/reconcile';
+import { listSessions, revokeAllSessions } from '../lib/sessions';
+import { endSubscriptionNow, getSubscription, startSubscription, toSubscription } from '../lib/subscriptions';
+import { requireAdmin, type AuthEnv } from '../middleware/auth';
+import { rateLimit } from '../middleware/ratelimit';
 
-export async function adminRoutes(request: Request, env: Env, path: string, method: string): Promise<Response> {
-  const db = env.DB;
+// requireAdmin runs for every route below, so userId/isAdmin are always set
+const admin = new Hono<AuthEnv>();
 
-  // All admin routes require admin authentication
-  const { auth, response: authError } = await requireAdmin(request, env);
-  if (authError) return authError;
+admin.use('*', requireAdmin, rateLimit('admin'));
 
-  // Rate limit admin operations
-  const rateCheck = await checkAdminRateLimit(env.RATELIMIT, auth.userId);
-  if (!rateCheck.allowed) {
-    return createCORSResponse({ error: 'Admin rate limit exceeded' }, 429, env.CORS_ORIGIN);
-  }
+// Sortable columns for GET /users (whitelisted, they are interpolated into SQL)
+const USER_SORT_COLUMNS: Record<string, string> = {
+  createdAt: 'created_at',
+  lastLoginAt: 'last_login_at',
+  email: 'email',
+  username: 'username',
+};
 
-  // POST /api/admin/credits/add - Admin grant credits
-  if (path === '/api/admin/credits/add' && method === 'POST') {
-    try {
-      const body = await parseBody<{
-        userId: string;
-        amount: number;
-        reason: string;
-      }>(request);
+type UserRow = {
+  id: string;
+  email: string;
+  username: string | null;
+  display_name: string | null;
+  auth_provider: string;
+  is_admin: number;
+  subscription_tier: string;
+  email_verified_at: string | null;
+  suspended_at: string | null;
+  suspended_reason: string | null;
+  created_at: string;
+  last_login_at: string | null;
+};
 
-      const { userId, amount, reason } = body;
+const LIKE_ESCAPE = "ESCAPE '\\'";
 
-      if (!userId || !amount || amount <= 0) {
-        return createCORSResponse({ error: 'Valid userId and positive amount required' }, 400, env.CORS_ORIGIN);
-      }
+const USER_COLUMNS = `id, email, username, display_name, auth_provider, is_admin, subscription_tier,
+  email_verified_at, suspended_at, suspended_reason, created_at, last_login_at`;
 
-      // Check user exists
-      const user = await db.prepare('SELECT id, email FROM users WHERE id = ?').bind(userId).first<{
-        id: string;
-        email: string;
-      }>();
+function toAdminUser(u: UserRow) {
+  return {
+    id: u.id,
+    email: u.email,
+    username: u.username,
+    displayName: u.display_name || u.email.split('@')[0],
+    authProvider: u.auth_provider,
+    isAdmin: u.is_admin === 1,
+    subscriptionTier: u.subscription_tier,
+    emailVerified: !!u.email_verified_at,
+    suspended: !!u.suspended_at,
+    suspendedAt: u.suspended_at,
+    suspendedReason: u.suspended_reason,
+    createdAt: u.created_at,
+    lastLoginAt: u.last_login_at,
+  };
+}
 
-      if (!user) {
-        return createCORSResponse({ error: 'User not found' }, 404, env.CORS_ORIGIN);
-      }
+function toAdminPromoCode(p: PromoCodeRow & { unique_redeemers?: number }) {
+  return {
+    id: p.id,
+    code: p.code,
+    credits: p.credits,
+    creditsExpireDays: p.credits_expire_days,
+    maxRedemptions: p.max_redemptions,
+    perUserLimit: p.per_user_limit,
+    redemptionCount: p.redemption_count,
+    uniqueRedeemers: p.unique_redeemers ?? 0,
+    startsAt: p.starts_at,
+    endsAt: p.ends_at,
+    storyId: p.story_id,
+    description: p.description,
+    active: p.is_active === 1,
+    createdBy: p.created_by,
+    createdAt: p.created_at,
+    deactivatedAt: p.deactivated_at,
+  };
+}
 
-      // Get current balance
-      const balanceResult = await db.prepare(`
-        SELECT COALESCE(SUM(
-          CASE WHEN transaction_type IN ('PURCHASE', 'REFUND', 'ADMIN_ADD', 'BONUS', 'PROMO') THEN credits_amount
-               ELSE -credits_amount END
-        ), 0) as balance
-        FROM credit_transactions
-        WHERE user_id = ?
-      `).bind(userId).first<{ balance: number }>();
+// POST /api/admin/credits/add - Admin grant credits
+admin.post('/credits/add', async (c) => {
+  const db = c.env.DB;
+  const adminId = c.get('userId');
+
+  try {
+    const body = await c.req.json<{
+      userId: string;
+      amount: number;
+      reason?: string;
+      expiresAt?: string; // ISO timestamp; omit for credits that never expire
+    }>();
+    const { userId, amount, reason } = body;
+
+    if (!userId || !Number.isInteger(amount) || amount <= 0) {
+      return c.json({ error: 'Valid userId and positive amount required' }, 400);
+    }
+
+    const expiresAt = body.expiresAt ? new Date(body.expiresAt) : null;
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now())) {
+      return c.json({ error: 'expiresAt must be a future ISO timestamp' }, 400);
+    }
+
+    // Check user exists
+    const user = await db.prepare('SELECT id, email FROM users WHERE id = ?').bind(userId).first<{
+      id: string;
+      email: string;
+    }>();
 
-      const currentBalance = balanceResult?.balance ?? 0;
-      const newBalance = currentBalance + amount;
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const currentBalance = await getBalance(db, userId);
+    const newBalance = currentBalance + amount;
 
-      const transactionId = `tx_${Date.now()}`;
-      const idempotencyKey = `admin_${auth.userId}_${userId}_${Date.now()}`;
+    const transactionId = newTransactionId();
+    const idempotencyKey = `admin_${adminId}_${userId}_${Date.now()}`;
 
+    await db.batch([
       // Insert transaction
-      await db.prepare(`
+      db.prepare(`
         INSERT INTO credit_transactions (
           transaction_id, user_id, transaction_type, credits_amount, balance_after,
-          admin_user_id, idempotency_key, reason, created_at
-        ) VALUES (?, ?, 'ADMIN_ADD', ?, ?, ?, ?, ?, datetime('now'))
-      `).bind(transactionId, userId, amount, newBalance, auth.userId, idempotencyKey, reason || 'Admin grant').run();
+          admin_user_id, idempotency_key, reason, expires_at, created_at
+        ) VALUES (?, ?, 'ADMIN_ADD', ?, ?, ?, ?, ?, ?, datetime('now'))
+      `).bind(transactionId, userId, amount, newBalance, adminId, idempotencyKey, reason || 'Admin grant', expiresAt && toSqlDateTime(expiresAt)),
+      ...ledgerSyncStatements(db, transactionId),
 
       // Log analytics
-      await db.prepare(`
+      db.prepare(`
         INSERT INTO events (user_id, event_type, credits_delta, metadata, platform, timestamp)
         VALUES (?, 'credit_added', ?, ?, 'admin', datetime('now'))
-      `).bind(userId, amount, JSON.stringify({ adminId: auth.userId, reason })).run();
+      `).bind(userId, amount, JSON.stringify({ adminId, reason })),
+
+      auditStatement(c, {
+        action: 'credits.add',
+        targetType: 'user',
+        targetId: userId,
+        reason: reason || 'Admin grant',
+        before: { balance: currentBalance },
+        after: { balance: newBalance },
+        metadata: { transactionId, amount, expiresAt: expiresAt?.toISOString() }
+      }),
+    ]);
+
+    return c.json({
+      success: true,
+      transactionId,
+      userId,
+      amount,
+      expiresAt: expiresAt?.toISOString() ?? null,
+      previousBalance: currentBalance,
+      newBalance,
+      grantedBy: adminId
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to add credits' }, 500);
+  }
+});
 
-      return createCORSResponse({
-        success: true,
-        transactionId,
-        userId,
-        amount,
-        previousBalance: currentBalance,
-        newBalance,
-        grantedBy: auth.userId
-      }, 200, env.CORS_ORIGIN);
-    } catch (error) {
-      return createCORSResponse({ error: error.message || 'Failed to add credits' }, 500, env.CORS_ORIGIN);
+// POST /api/admin/credits/deduct - Admin deduct credits
+admin.post('/credits/deduct', async (c) => {
+  const db = c.env.DB;
+  const adminId = c.get('userId');
+
+  try {
+    const body = await c.req.json<{
+      userId: string;
+      amount: number;
+      reason?: string;
+    }>();
+    const { userId, amount, reason } = body;
+
+    if (!userId || !Number.isInteger(amount) || amount <= 0) {
+      return c.json({ error: 'Valid userId and positive amount required' }, 400);
     }
+
+    // The debit only inserts while the balance still covers it (same guard as unlocks), so
+    // concurrent deducts can't overdraw; the event follows the debit row
+    const transactionId = newTransactionId();
+    const idempotencyKey = `admin_deduct_${adminId}_${userId}_${Date.now()}`;
+
+    const [debit] = await db.batch([
+      db.prepare(`
+        INSERT INTO credit_transactions (
+          transaction_id, user_id, transaction_type, credits_amount, balance_after,
+          admin_user_id, idempotency_key, reason, created_at
+        )
+        SELECT ?, ?, 'ADMIN_REMOVE', ?, b.balance - ?, ?, ?, ?, datetime('now')
+        FROM (SELECT (${BALANCE_SQL}) AS balance) b
+        WHERE b.balance >= ?
+      `).bind(transactionId, userId, amount, amount, adminId, idempotencyKey, reason || 'Admin deduction', userId, amount),
+      ...ledgerSyncStatements(db, transactionId),
+
+      // Log analytics
+      db.prepare(`
+        INSERT INTO events (user_id, event_type, credits_delta, metadata, platform, timestamp)
+        SELECT user_id, 'credit_removed', -credits_amount, ?, 'admin', datetime('now')
+        FROM credit_transactions WHERE transaction_id = ?
+      `).bind(JSON.stringify({ adminId, reason }), transactionId),
+    ]);
+
+    if (debit.meta.changes !== 1) {
+      return c.json({
+        error: 'Insufficient credits',
+        requested: amount,
+        available: await getBalance(db, userId)
+      }, 400);
+    }
+
+    const row = await db.prepare('SELECT balance_after FROM credit_transactions WHERE transaction_id = ?')
+      .bind(transactionId).first<{ balance_after: number }>();
+    const newBalance = row!.balance_after;
+    const currentBalance = newBalance + amount;
+
+    await recordAdminAction(c, {
+      action: 'credits.deduct',
+      targetType: 'user',
+      targetId: userId,
+      reason: reason || 'Admin deduction',
+      before: { balance: currentBalance },
+      after: { balance: newBalance },
+      metadata: { transactionId, amount }
+    });
+
+    return c.json({
+      success: true,
+      transactionId,
+      userId,
+      amount: -amount,
+      previousBalance: currentBalance,
+      newBalance,
+      deductedBy: adminId
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to deduct credits' }, 500);
   }
+});
 
-  // POST /api/admin/credits/deduct - Admin deduct credits
-  if (path === '/api/admin/credits/deduct' && method === 'POST') {
-    try {
-      const body = await parseBody<{
-        userId: string;
-        amount: number;
-        reason: string;
-      }>(request);
+// POST /api/admin/credits/refund - Reverse a ledger entry.
+// CONSUMPTION: credits go back as a REFUND (relock=true also re-locks the unlocked chapters).
+// PURCHASE: a chargeback claws the credits back as a CHARGEBACK, which may leave the balance negative.
+admin.post('/credits/refund', async (c) => {
+  const db = c.env.DB;
+  const adminId = c.get('userId');
+
+  try {
+    const body = await c.req.json<{
+      transactionId: string;
+      amount?: number;
+      relock?: boolean;
+      reason?: string;
+    }>();
+    const { transactionId: originalId, relock = false, reason } = body;
+
+    if (!originalId) {
+      return c.json({ error: 'transactionId required' }, 400);
+    }
+
+    const original = await db.prepare(`
+      SELECT transaction_id, user_id, transaction_type, credits_amount, story_id, chapter_id, purchase_id, metadata
+      FROM credit_transactions WHERE transaction_id = ?
+    `).bind(originalId).first<{
+      transaction_id: string;
+      user_id: string;
+      transaction_type: string;
+      credits_amount: number;
+      story_id: string | null;
+      chapter_id: string | null;
+      purchase_id: string | null;
+      metadata: string | null;
+    }>();
+
+    if (!original) {
+      return c.json({ error: 'Transaction not found' }, 404);
+    }
+
+    if (original.transaction_type !== 'CONSUMPTION' && original.transaction_type !== 'PURCHASE') {
+      return c.json({ error: 'Only CONSUMPTION and PURCHASE transactions can be refunded' }, 400);
+    }
+
+    const amount = body.amount ?? original.credits_amount;
+    if (!Number.isInteger(amount) || amount <= 0 || amount > original.credits_amount) {
+      return c.json({ error: `amount must be between 1 and ${original.credits_amount}` }, 400);
+    }
+
+    const existing = await db.prepare(
+      'SELECT transaction_id FROM credit_transactions WHERE refunded_transaction_id = ?'
+    ).bind(originalId).first<{ transaction_id: string }>();
+
+    if (existing) {
+      return c.json({ error: 'Transaction already refunded', refundTransactionId: existing.transaction_id }, 409);
+    }
 
-      const { userId, amount, reason } = body;
+    const isChargeback = original.transaction_type === 'PURCHASE';
+    const type = isChargeback ? 'CHARGEBACK' : 'REFUND';
+    const delta = isChargeback ? -amount : amount;
+    const userId = original.user_id;
 
-      if (!userId || !amount || amount <= 0) {
-        return createCORSResponse({ error: 'Valid userId and positive amount required' }, 400, env.CORS_ORIGIN);
+    // Bundle unlocks carry their chapters in metadata rather than chapter_id
+    const chapterIds = original.chapter_id
+      ? [original.chapter_id]
+      : (original.metadata ? JSON.parse(original.metadata).chapters ?? [] : []).map((ch: { chapterId: string }) => ch.chapterId);
+    const relockChapters = !isChargeback && relock ? chapterIds : [];
+
+    const currentBalance = await getBalance(db, userId);
+    const transactionId = newTransactionId();
+    const refundReason = reason || (isChargeback ? 'Purchase chargeback' : 'Admin refund');
+
+    const statements = [
+      // balance_after is computed inside the insert so it reflects the ledger at write time
+      db.prepare(`
+        INSERT INTO credit_transactions (
+          transaction_id, user_id, transaction_type, credits_amount, balance_after,
+          story_id, chapter_id, purchase_id, admin_user_id, refunded_transaction_id,
+          idempotency_key, reason, created_at
+        )
+        SELECT ?, ?, ?, ?, (${BALANCE_SQL}) + ?, ?, ?, ?, ?, ?, ?, ?, datetime('now')
+      `).bind(
+        transactionId, userId, type, amount, userId, delta,
+        original.story_id, original.chapter_id, original.purchase_id, adminId, originalId,
+        `refund_${originalId}`, refundReason
+      ),
+      ...ledgerSyncStatements(db, transactionId),
+
+      db.prepare(`
+        INSERT INTO events (user_id, event_type, credits_delta, metadata, platform, timestamp)
+        VALUES (?, ?, ?, ?, 'admin', datetime('now'))
+      `).bind(userId, isChargeback ? 'credit_chargeback' : 'credit_refunded', delta, JSON.stringify({ adminId, originalId, reason })),
+
+      ...relockChapters.map((chapterId: string) => db.prepare(`
+        UPDATE user_chapters SET unlocked_at = NULL, updated_at = datetime('now')
+        WHERE user_id = ? AND chapter_id = ?
+      `).bind(userId, chapterId)),
+    ];
+
+    if (isChargeback && original.purchase_id) {
+      statements.push(db.prepare(`UPDATE credit_purchases SET status = 'REFUNDED' WHERE id = ?`).bind(original.purchase_id));
+    }
+
+    const newBalance = currentBalance + delta;
+    const negativeBalance = newBalance < 0;
+
+    statements.push(auditStatement(c, {
+      action: 'credits.refund',
+      targetType: 'user',
+      targetId: userId,
+      reason: refundReason,
+      before: { balance: currentBalance },
+      after: { balance: newBalance },
+      metadata: { transactionId, originalTransactionId: originalId, type, amount, relockedChapters: relockChapters, negativeBalance }
+    }));
+
+    try {
+      await db.batch(statements);
+    } catch (error: any) {
+      // Lost a race with a concurrent refund of the same transaction
+      if (String(error?.message).includes('UNIQUE')) {
+        return c.json({ error: 'Transaction already refunded' }, 409);
       }
+      throw error;
+    }
+
+    const row = await db.prepare('SELECT balance_after FROM credit_transactions WHERE transaction_id = ?')
+      .bind(transactionId)
+      .first<{ balance_after: number }>();
+
+    return c.json({
+      success: true,
+      transactionId,
+      type,
+      originalTransactionId: originalId,
+      userId,
+      amount: delta,
+      previousBalance: currentBalance,
+      newBalance: row?.balance_after ?? newBalance,
+      negativeBalance: (row?.balance_after ?? newBalance) < 0,
+      relockedChapters: relockChapters,
+      refundedBy: adminId
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to refund transaction' }, 500);
+  }
+});
+
+// GET /api/admin/analytics - Get analytics overview
+admin.get('/analytics', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    // Daily revenue (7 days)
+    const revenue = await db.prepare(`
+      SELECT DATE(created_at) as date, SUM(credits_amount) as credits
+      FROM credit_transactions
+      WHERE transaction_type = 'PURCHASE'
+        AND created_at >= datetime('now', '-7 days')
+      GROUP BY DATE(created_at)
+      ORDER BY date
+    `).all<{ date: string; credits: number }>();
+
+    // Story performance
+    const storyStats = await db.prepare(`
+      SELECT s.id, s.title, s.total_reads, s.total_chapters,
+             COUNT(DISTINCT uc.user_id) as unique_readers,
+             SUM(CASE WHEN uc.unlocked_at IS NOT NULL THEN 1 ELSE 0 END) as total_unlocks
+      FROM stories s
+      LEFT JOIN chapters c ON s.id = c.story_id
+      LEFT JOIN user_chapters uc ON c.id = uc.chapter_id
+      GROUP BY s.id
+      ORDER BY s.total_reads DESC
+      LIMIT 10
+    `).all<{
+      id: string;
+      title: string;
+      total_reads: number;
+      total_chapters: number;
+      unique_readers: number;
+      total_unlocks: number;
+    }>();
+
+    // Credit stats
+    const creditStats = await db.prepare(`
+      SELECT transaction_type, COUNT(*) as count, SUM(credits_amount) as total
+      FROM credit_transactions
+      WHERE created_at >= datetime('now', '-7 days')
+      GROUP BY transaction_type
+    `).all<{ transaction_type: string; count: number; total: number }>();
+
+    // User stats
+    const userStats = await db.prepare(`
+      SELECT
+        COUNT(*) as total_users,
+        COUNT(CASE WHEN last_login_at >= datetime('now', '-7 days') THEN 1 END) as active_users
+      FROM users
+    `).first<{ total_users: number; active_users: number }>();
+
+    return c.json({
+      timeframe: '7 days',
+      revenue: { daily: revenue.results || [] },
+      stories: storyStats.results || [],
+      credits: creditStats.results || [],
+      users: userStats || { total_users: 0, active_users: 0 }
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch analytics' }, 500);
+  }
+});
 
-      // Get current balance
-      const balanceResult = await db.prepare(`
-        SELECT COALESCE(SUM(
-          CASE WHEN transaction_type IN ('PURCHASE', 'REFUND', 'ADMIN_ADD', 'BONUS', 'PROMO') THEN credits_amount
-               ELSE -credits_amount END
-        ), 0) as balance
-        FROM credit_transactions
+// GET /api/admin/users - Search users by email/username with paging and sorting
+admin.get('/users', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const q = c.req.query('q')?.trim();
+    const status = c.req.query('status'); // 'active' | 'suspended'
+    const page = Math.max(1, parseInt(c.req.query('page') || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(c.req.query('limit') || '25', 10) || 25));
+    const sortColumn = USER_SORT_COLUMNS[c.req.query('sort') || 'createdAt'] ?? 'created_at';
+    const order = c.req.query('order') === 'asc' ? 'ASC' : 'DESC';
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (q) {
+      // Treat % and _ in the search text literally
+      const pattern = `%${q.replace(/[\\%_]/g, m => `\\${m}`)}%`;
+      conditions.push(`(email LIKE ? ${LIKE_ESCAPE} OR username LIKE ? ${LIKE_ESCAPE} OR display_name LIKE ? ${LIKE_ESCAPE})`);
+      params.push(pattern, pattern, pattern);
+    }
+    if (status === 'suspended') conditions.push('suspended_at IS NOT NULL');
+    if (status === 'active') conditions.push('suspended_at IS NULL');
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const total = await db.prepare(`SELECT COUNT(*) as count FROM users ${where}`).bind(...params).first<{ count: number }>();
+
+    const result = await db.prepare(`
+      SELECT ${USER_COLUMNS}
+      FROM users
+      ${where}
+      ORDER BY ${sortColumn} ${order}, id
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, (page - 1) * limit).all<UserRow>();
+
+    return c.json({
+      users: (result.results || []).map(toAdminUser),
+      page,
+      limit,
+      total: total?.count ?? 0
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to list users' }, 500);
+  }
+});
+
+// GET /api/admin/users/:id - User detail: profile, balance, unlocks, recent events, sessions
+admin.get('/users/:id', async (c) => {
+  const db = c.env.DB;
+  const userId = c.req.param('id');
+
+  try {
+    const user = await db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).bind(userId).first<UserRow>();
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const [balance, subscription, unlocks, events, sessions] = await Promise.all([
+      getBalance(db, userId),
+      getSubscription(db, userId),
+      db.prepare(`
+        SELECT uc.chapter_id, uc.story_id, uc.unlocked_at, uc.unlock_source, uc.completed_at, uc.last_message_index,
+               c.chapter_number, c.title as chapter_title, s.title as story_title
+        FROM user_chapters uc
+        JOIN chapters c ON uc.chapter_id = c.id
+        JOIN stories s ON uc.story_id = s.id
+        WHERE uc.user_id = ? AND uc.unlocked_at IS NOT NULL
+        ORDER BY uc.unlocked_at DESC
+      `).bind(userId).all<{
+        chapter_id: string;
+        story_id: string;
+        unlocked_at: string;
+        unlock_source: string;
+        completed_at: string | null;
+        last_message_index: number;
+        chapter_number: number;
+        chapter_title: string;
+        story_title: string;
+      }>(),
+      db.prepare(`
+        SELECT id, event_type, story_id, chapter_id, credits_delta, metadata, platform, timestamp
+        FROM events
         WHERE user_id = ?
-      `).bind(userId).first<{ balance: number }>();
+        ORDER BY timestamp DESC
+        LIMIT 50
+      `).bind(userId).all<{
+        id: number;
+        event_type: string;
+        story_id: string | null;
+        chapter_id: string | null;
+        credits_delta: number;
+        metadata: string | null;
+        platform: string | null;
+        timestamp: string;
+      }>(),
+      listSessions(c.env.SESSIONS, userId),
+    ]);
+
+    return c.json({
+      user: toAdminUser(user),
+      balance,
+      subscription: subscription ? toSubscription(subscription) : null,
+      unlockedChapters: (unlocks.results || []).map(u => ({
+        chapterId: u.chapter_id,
+        storyId: u.story_id,
+        storyTitle: u.story_title,
+        chapterNumber: u.chapter_number,
+        chapterTitle: u.chapter_title,
+        unlockedAt: u.unlocked_at,
+        unlockSource: u.unlock_source,
+        completedAt: u.completed_at,
+        lastMessageIndex: u.last_message_index
+      })),
+      recentEvents: (events.results || []).map(e => ({
+        id: e.id,
+        type: e.event_type,
+        storyId: e.story_id,
+        chapterId: e.chapter_id,
+        creditsDelta: e.credits_delta,
+        metadata: e.metadata ? JSON.parse(e.metadata) : null,
+        platform: e.platform,
+        timestamp: e.timestamp
+      })),
+      activeSessions: sessions.length
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch user' }, 500);
+  }
+});
+
+// PATCH /api/admin/users/:id - Change the admin flag (premium goes through /users/:id/subscription)
+admin.patch('/users/:id', async (c) => {
+  const db = c.env.DB;
+  const adminId = c.get('userId');
+  const userId = c.req.param('id');
+
+  try {
+    const body = await c.req.json<{ isAdmin?: boolean; subscriptionTier?: string; reason?: string }>();
+    const { isAdmin } = body;
+
+    // The tier follows the subscriptions row, so setting it here would skip renewal, lapse and stipends
+    if (body.subscriptionTier !== undefined) {
+      return c.json({ error: 'Use POST or DELETE /api/admin/users/:id/subscription to change premium access' }, 400);
+    }
+    if (isAdmin === undefined) {
+      return c.json({ error: 'Nothing to update' }, 400);
+    }
+    if (typeof isAdmin !== 'boolean') {
+      return c.json({ error: 'isAdmin must be a boolean' }, 400);
+    }
+    if (isAdmin === false && userId === adminId) {
+      return c.json({ error: 'Admins cannot remove their own admin access' }, 400);
+    }
+
+    const before = await db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).bind(userId).first<UserRow>();
+    if (!before) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    await db.prepare(`
+      UPDATE users
+      SET is_admin = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).bind(isAdmin ? 1 : 0, userId).run();
 
-      const currentBalance = balanceResult?.balance ?? 0;
+    const user = await db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).bind(userId).first<UserRow>();
 
-      if (currentBalance < amount) {
-        return createCORSResponse({
-          error: 'Insufficient credits',
-          requested: amount,
-          available: currentBalance
-        }, 400, env.CORS_ORIGIN);
+    await recordAdminAction(c, {
+      action: 'user.update',
+      targetType: 'user',
+      targetId: userId,
+      reason: body.reason ?? null,
+      before: { isAdmin: before.is_admin === 1 },
+      after: { isAdmin: user!.is_admin === 1 }
+    });
+
+    return c.json({ success: true, user: toAdminUser(user!) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to update user' }, 500);
+  }
+});
+
+// POST /api/admin/users/:id/suspend - Suspend an account and sign it out everywhere
+admin.post('/users/:id/suspend', async (c) => {
+  const db = c.env.DB;
+  const adminId = c.get('userId');
+  const userId = c.req.param('id');
+
+  try {
+    const body = await c.req.json<{ reason?: string }>().catch(() => ({} as { reason?: string }));
+
+    if (userId === adminId) {
+      return c.json({ error: 'Admins cannot suspend themselves' }, 400);
+    }
+
+    const before = await db.prepare('SELECT suspended_at, suspended_reason FROM users WHERE id = ?').bind(userId).first<{
+      suspended_at: string | null;
+      suspended_reason: string | null;
+    }>();
+    if (!before) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    await db.prepare(`
+      UPDATE users
+      SET suspended_at = COALESCE(suspended_at, datetime('now')),
+          suspended_reason = ?,
+          updated_at = datetime('now')
+      WHERE id = ?
+    `).bind(body.reason ?? null, userId).run();
+
+    const revokedSessions = await revokeAllSessions(c.env.SESSIONS, userId);
+
+    await recordAdminAction(c, {
+      action: 'user.suspend',
+      targetType: 'user',
+      targetId: userId,
+      reason: body.reason ?? null,
+      before: { suspendedAt: before.suspended_at, suspendedReason: before.suspended_reason },
+      after: { suspended: true, suspendedReason: body.reason ?? null },
+      metadata: { revokedSessions }
+    });
+
+    return c.json({ success: true, userId, suspended: true, revokedSessions });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to suspend user' }, 500);
+  }
+});
+
+// POST /api/admin/users/:id/unsuspend - Lift a suspension
+admin.post('/users/:id/unsuspend', async (c) => {
+  const db = c.env.DB;
+  const userId = c.req.param('id');
+
+  try {
+    const body = await c.req.json<{ reason?: string }>().catch(() => ({} as { reason?: string }));
+
+    const before = await db.prepare('SELECT suspended_at, suspended_reason FROM users WHERE id = ?').bind(userId).first<{
+      suspended_at: string | null;
+      suspended_reason: string | null;
+    }>();
+    if (!before) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    await db.prepare(`
+      UPDATE users
+      SET suspended_at = NULL, suspended_reason = NULL, updated_at = datetime('now')
+      WHERE id = ?
+    `).bind(userId).run();
+
+    await recordAdminAction(c, {
+      action: 'user.unsuspend',
+      targetType: 'user',
+      targetId: userId,
+      reason: body.reason ?? null,
+      before: { suspendedAt: before.suspended_at, suspendedReason: before.suspended_reason },
+      after: { suspended: false }
+    });
+
+    return c.json({ success: true, userId, suspended: false });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to unsuspend user' }, 500);
+  }
+});
+
+// POST /api/admin/users/:id/subscription - Start, restart or extend a premium subscription
+admin.post('/users/:id/subscription', async (c) => {
+  const db = c.env.DB;
+  const userId = c.req.param('id');
+
+  try {
+    const body = await c.req.json<{
+      months: number;
+      monthlyStipend?: number; // BONUS credits paid each month while the subscription is live
+      reason?: string;
+    }>();
+    const monthlyStipend = body.monthlyStipend ?? 0;
+
+    if (!Number.isInteger(body.months) || body.months <= 0 || body.months > 36) {
+      return c.json({ error: 'months must be an integer between 1 and 36' }, 400);
+    }
+    if (!Number.isInteger(monthlyStipend) || monthlyStipend < 0) {
+      return c.json({ error: 'monthlyStipend must be a non-negative integer' }, 400);
+    }
+
+    const user = await db.prepare('SELECT id FROM users WHERE id = ?').bind(userId).first();
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const before = await getSubscription(db, userId);
+    const subscription = await startSubscription(db, { userId, months: body.months, monthlyStipend });
+
+    await recordAdminAction(c, {
+      action: 'subscription.grant',
+      targetType: 'user',
+      targetId: userId,
+      reason: body.reason ?? null,
+      before: before ? { status: before.status, currentPeriodEnd: before.current_period_end } : null,
+      after: { status: subscription.status, currentPeriodEnd: subscription.current_period_end },
+      metadata: { months: body.months, monthlyStipend }
+    });
+
+    return c.json({ success: true, userId, subscription: toSubscription(subscription) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to start subscription' }, 500);
+  }
+});
+
+// DELETE /api/admin/users/:id/subscription - End a subscription now (chapters bought with credits stay unlocked)
+admin.delete('/users/:id/subscription', async (c) => {
+  const db = c.env.DB;
+  const userId = c.req.param('id');
+
+  try {
+    const body = await c.req.json<{ reason?: string }>().catch(() => ({} as { reason?: string }));
+
+    const before = await getSubscription(db, userId);
+    if (!before || before.status === 'LAPSED') {
+      return c.json({ error: 'No active subscription' }, 404);
+    }
+
+    await endSubscriptionNow(db, userId);
+    const subscription = await getSubscription(db, userId);
+
+    await recordAdminAction(c, {
+      action: 'subscription.end',
+      targetType: 'user',
+      targetId: userId,
+      reason: body.reason ?? null,
+      before: { status: before.status, currentPeriodEnd: before.current_period_end },
+      after: { status: subscription!.status, lapsedAt: subscription!.lapsed_at }
+    });
+
+    return c.json({ success: true, userId, subscription: toSubscription(subscription!) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to end subscription' }, 500);
+  }
+});
+
+// GET /api/admin/audit - Audit log with filters (actorId, targetId, action, from, to)
+admin.get('/audit', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const page = Math.max(1, parseInt(c.req.query('page') || '1', 10) || 1);
+    const limit = Math.min(200, Math.max(1, parseInt(c.req.query('limit') || '50', 10) || 50));
+
+    // created_at is datetime('now') text, so ISO input must be normalised before comparing
+    const [from, to] = ['from', 'to'].map(name => {
+      const value = c.req.query(name);
+      return value ? new Date(value) : null;
+    });
+    if ([from, to].some(d => d && isNaN(d.getTime()))) {
+      return c.json({ error: 'from and to must be valid dates' }, 400);
+    }
+
+    const filters: Array<[string, string | undefined]> = [
+      ['a.actor_user_id = ?', c.req.query('actorId')],
+      ['a.target_id = ?', c.req.query('targetId')],
+      ['a.target_type = ?', c.req.query('targetType')],
+      ['a.action = ?', c.req.query('action')],
+      ['a.created_at >= ?', from ? toSqlDateTime(from) : undefined],
+      ['a.created_at <= ?', to ? toSqlDateTime(to) : undefined],
+    ];
+    const conditions = filters.filter(([, value]) => value);
+    const where = conditions.length ? `WHERE ${conditions.map(([sql]) => sql).join(' AND ')}` : '';
+    const params = conditions.map(([, value]) => value);
+
+    const total = await db.prepare(`SELECT COUNT(*) as count FROM admin_audit_log a ${where}`).bind(...params).first<{ count: number }>();
+
+    const result = await db.prepare(`
+      SELECT a.*, u.email as actor_email
+      FROM admin_audit_log a
+      LEFT JOIN users u ON a.actor_user_id = u.id
+      ${where}
+      ORDER BY a.created_at DESC, a.id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, (page - 1) * limit).all<{
+      id: number;
+      actor_user_id: string;
+      actor_email: string | null;
+      action: string;
+      target_type: string;
+      target_id: string | null;
+      reason: string | null;
+      before_state: string | null;
+      after_state: string | null;
+      metadata: string | null;
+      ip_address: string | null;
+      user_agent: string | null;
+      created_at: string;
+    }>();
+
+    return c.json({
+      entries: (result.results || []).map(a => ({
+        id: a.id,
+        actor: { id: a.actor_user_id, email: a.actor_email },
+        action: a.action,
+        target: { type: a.target_type, id: a.target_id },
+        reason: a.reason,
+        before: a.before_state ? JSON.parse(a.before_state) : null,
+        after: a.after_state ? JSON.parse(a.after_state) : null,
+        metadata: a.metadata ? JSON.parse(a.metadata) : null,
+        ipAddress: a.ip_address,
+        userAgent: a.user_agent,
+        createdAt: a.created_at
+      })),
+      page,
+      limit,
+      total: total?.count ?? 0
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch audit log' }, 500);
+  }
+});
+
+// GET /api/admin/balances/drift - Drift found by balance reconciliation runs (newest first)
+admin.get('/balances/drift', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const page = Math.max(1, parseInt(c.req.query('page') || '1', 10) || 1);
+    const limit = Math.min(200, Math.max(1, parseInt(c.req.query('limit') || '50', 10) || 50));
+    const runId = c.req.query('runId');
+    const where = runId ? 'WHERE d.run_id = ?' : '';
+    const params = runId ? [runId] : [];
+
+    const total = await db.prepare(`SELECT COUNT(*) as count FROM balance_drift_reports d ${where}`).bind(...params).first<{ count: number }>();
+
+    const result = await db.prepare(`
+      SELECT d.*, u.email
+      FROM balance_drift_reports d
+      LEFT JOIN users u ON d.user_id = u.id
+      ${where}
+      ORDER BY d.created_at DESC, d.id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, (page - 1) * limit).all<{
+      id: number;
+      run_id: string;
+      user_id: string;
+      email: string | null;
+      materialized_balance: number | null;
+      ledger_balance: number;
+      drift: number;
+      created_at: string;
+    }>();
+
+    return c.json({
+      reports: (result.results || []).map(d => ({
+        id: d.id,
+        runId: d.run_id,
+        user: { id: d.user_id, email: d.email },
+        materializedBalance: d.materialized_balance,
+        ledgerBalance: d.ledger_balance,
+        drift: d.drift,
+        createdAt: d.created_at
+      })),
+      page,
+      limit,
+      total: total?.count ?? 0
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch drift reports' }, 500);
+  }
+});
+
+// POST /api/admin/balances/reconcile - Run the balance reconciliation now instead of waiting for the cron
+admin.post('/balances/reconcile', async (c) => {
+  try {
+    const result = await reconcileBalances(c.env);
+
+    await recordAdminAction(c, {
+      action: 'balances.reconcile',
+      targetType: 'ledger',
+      targetId: result.runId,
+      metadata: { corrected: result.drifts.length }
+    });
+
+    return c.json({ success: true, runId: result.runId, corrected: result.drifts.length, drifts: result.drifts });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to reconcile balances' }, 500);
+  }
+});
+
+// POST /api/admin/promo-codes - Create a promo code
+admin.post('/promo-codes', async (c) => {
+  const db = c.env.DB;
+  const adminId = c.get('userId');
+
+  try {
+    const body = await c.req.json<{
+      code: string;
+      credits: number;
+      creditsExpireDays?: number | null; // redeemed credits expire this many days later; omit for never
+      maxRedemptions?: number | null; // across all users; omit for unlimited
+      perUserLimit?: number;
+      startsAt?: string; // ISO timestamps bounding when the code can be redeemed
+      endsAt?: string;
+      storyId?: string; // restrict redemption to this story
+      description?: string;
+    }>();
+
+    const code = typeof body.code === 'string' ? normalizePromoCode(body.code) : '';
+    if (!isValidPromoCode(code)) {
+      return c.json({ error: 'code must be 3-32 letters, digits, dashes or underscores' }, 400);
+    }
+    if (!Number.isInteger(body.credits) || body.credits <= 0) {
+      return c.json({ error: 'credits must be a positive integer' }, 400);
+    }
+
+    const creditsExpireDays = body.creditsExpireDays ?? null;
+    if (creditsExpireDays !== null && (!Number.isInteger(creditsExpireDays) || creditsExpireDays <= 0)) {
+      return c.json({ error: 'creditsExpireDays must be a positive integer' }, 400);
+    }
+
+    const maxRedemptions = body.maxRedemptions ?? null;
+    const perUserLimit = body.perUserLimit ?? 1;
+    if ((maxRedemptions !== null && (!Number.isInteger(maxRedemptions) || maxRedemptions <= 0))
+      || !Number.isInteger(perUserLimit) || perUserLimit <= 0) {
+      return c.json({ error: 'maxRedemptions and perUserLimit must be positive integers' }, 400);
+    }
+
+    const startsAt = body.startsAt ? new Date(body.startsAt) : null;
+    const endsAt = body.endsAt ? new Date(body.endsAt) : null;
+    if ((startsAt && isNaN(startsAt.getTime())) || (endsAt && isNaN(endsAt.getTime()))) {
+      return c.json({ error: 'startsAt and endsAt must be ISO timestamps' }, 400);
+    }
+    if (endsAt && (endsAt.getTime() <= Date.now() || (startsAt && endsAt <= startsAt))) {
+      return c.json({ error: 'endsAt must be in the future and after startsAt' }, 400);
+    }
+
+    if (body.storyId) {
+      const story = await db.prepare('SELECT id FROM stories WHERE id = ?').bind(body.storyId).first();
+      if (!story) {
+        return c.json({ error: 'Story not found' }, 404);
       }
+    }
 
-      const newBalance = currentBalance - amount;
-      const transactionId = `tx_${Date.now()}`;
-      const idempotencyKey = `admin_deduct_${auth.userId}_${userId}_${Date.now()}`;
+    const existing = await db.prepare('SELECT id FROM promo_codes WHERE code = ?').bind(code).first();
+    if (existing) {
+      return c.json({ error: 'Promo code already exists' }, 409);
+    }
 
-      await db.prepare(`
-        INSERT INTO credit_transactions (
-          transaction_id, user_id, transaction_type, credits_amount, balance_after,
-          admin_user_id, idempotency_key, reason, created_at
-        ) VALUES (?, ?, 'ADMIN_REMOVE', ?, ?, ?, ?, ?, datetime('now'))
-      `).bind(transactionId, userId, amount, newBalance, auth.userId, idempotencyKey, reason || 'Admin deduction').run();
+    const id = `promo_${generateId()}`;
+    const after = {
+      code,
+      credits: body.credits,
+      creditsExpireDays,
+      maxRedemptions,
+      perUserLimit,
+      startsAt: startsAt?.toISOString() ?? null,
+      endsAt: endsAt?.toISOString() ?? null,
+      storyId: body.storyId ?? null
+    };
+
+    await db.batch([
+      db.prepare(`
+        INSERT INTO promo_codes (
+          id, code, credits, credits_expire_days, max_redemptions, per_user_limit, starts_at, ends_at,
+          story_id, description, created_by, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      `).bind(
+        id, code, body.credits, creditsExpireDays, maxRedemptions, perUserLimit,
+        startsAt && toSqlDateTime(startsAt), endsAt && toSqlDateTime(endsAt),
+        body.storyId ?? null, body.description ?? null, adminId
+      ),
+
+      auditStatement(c, {
+        action: 'promo.create',
+        targetType: 'promo_code',
+        targetId: id,
+        reason: body.description ?? null,
+        after
+      }),
+    ]);
+
+    const created = await db.prepare('SELECT * FROM promo_codes WHERE id = ?').bind(id).first<PromoCodeRow>();
+    return c.json({ success: true, promoCode: toAdminPromoCode(created!) }, 201);
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to create promo code' }, 500);
+  }
+});
+
+// GET /api/admin/promo-codes - Promo codes with redemption counts (?active=true|false, page, limit)
+admin.get('/promo-codes', async (c) => {
+  const db = c.env.DB;
 
-      return createCORSResponse({
-        success: true,
-        transactionId,
-        userId,
-        amount: -amount,
-        previousBalance: currentBalance,
-        newBalance,
-        deductedBy: auth.userId
-      }, 200, env.CORS_ORIGIN);
-    } catch (error) {
-      return createCORSResponse({ error: error.message || 'Failed to deduct credits' }, 500, env.CORS_ORIGIN);
+  try {
+    const page = Math.max(1, parseInt(c.req.query('page') || '1', 10) || 1);
+    const limit = Math.min(200, Math.max(1, parseInt(c.req.query('limit') || '50', 10) || 50));
+    const active = c.req.query('active');
+    const where = active === 'true' || active === 'false' ? 'WHERE p.is_active = ?' : '';
+    const params = where ? [active === 'true' ? 1 : 0] : [];
+
+    const total = await db.prepare(`SELECT COUNT(*) as count FROM promo_codes p ${where}`).bind(...params).first<{ count: number }>();
+
+    const result = await db.prepare(`
+      SELECT p.*,
+             (SELECT COUNT(DISTINCT user_id) FROM promo_redemptions r WHERE r.promo_code_id = p.id) as unique_redeemers
+      FROM promo_codes p
+      ${where}
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, (page - 1) * limit).all<PromoCodeRow & { unique_redeemers: number }>();
+
+    return c.json({
+      promoCodes: (result.results || []).map(toAdminPromoCode),
+      page,
+      limit,
+      total: total?.count ?? 0
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch promo codes' }, 500);
+  }
+});
+
+// POST /api/admin/promo-codes/:id/deactivate - Stop further redemptions (existing PROMO credits are kept)
+admin.post('/promo-codes/:id/deactivate', async (c) => {
+  const db = c.env.DB;
+  const id = c.req.param('id');
+
+  try {
+    const body = await c.req.json<{ reason?: string }>().catch(() => ({} as { reason?: string }));
+
+    const before = await db.prepare('SELECT * FROM promo_codes WHERE id = ?').bind(id).first<PromoCodeRow>();
+    if (!before) {
+      return c.json({ error: 'Promo code not found' }, 404);
     }
+
+    await db.batch([
+      db.prepare(`
+        UPDATE promo_codes
+        SET is_active = 0, deactivated_at = COALESCE(deactivated_at, datetime('now'))
+        WHERE id = ?
+      `).bind(id),
+
+      auditStatement(c, {
+        action: 'promo.deactivate',
+        targetType: 'promo_code',
+        targetId: id,
+        reason: body.reason ?? null,
+        before: { active: before.is_active === 1 },
+        after: { active: false },
+        metadata: { code: before.code, redemptionCount: before.redemption_count }
+      }),
+    ]);
+
+    return c.json({ success: true, id, code: before.code, active: false, redemptionCount: before.redemption_count });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to deactivate promo code' }, 500);
   }
+});
 
-  // GET /api/admin/analytics - Get analytics overview
-  if (path === '/api/admin/analytics' && method === 'GET') {
-    try {
-      // Daily revenue (7 days)
-      const revenue = await db.prepare(`
-        SELECT DATE(created_at) as date, SUM(credits_amount) as credits
-        FROM credit_transactions
-        WHERE transaction_type = 'PURCHASE'
-          AND created_at >= datetime('now', '-7 days')
-        GROUP BY DATE(created_at)
-        ORDER BY date
-      `).all<{ date: string; credits: number }>();
-
-      // Story performance
-      const storyStats = await db.prepare(`
-        SELECT s.id, s.title, s.total_reads, s.total_chapters,
-               COUNT(DISTINCT uc.user_id) as unique_readers,
-               SUM(CASE WHEN uc.unlocked_at IS NOT NULL THEN 1 ELSE 0 END) as total_unlocks
-        FROM stories s
-        LEFT JOIN chapters c ON s.id = c.story_id
-        LEFT JOIN user_chapters uc ON c.id = uc.chapter_id
-        GROUP BY s.id
-        ORDER BY s.total_reads DESC
-        LIMIT 10
-      `).all<{
-        id: string;
-        title: string;
-        total_reads: number;
-        total_chapters: number;
-        unique_readers: number;
-        total_unlocks: number;
-      }>();
-
-      // Credit stats
-      const creditStats = await db.prepare(`
-        SELECT transaction_type, COUNT(*) as count, SUM(credits_amount) as total
-        FROM credit_transactions
-        WHERE created_at >= datetime('now', '-7 days')
-        GROUP BY transaction_type
-      `).all<{ transaction_type: string; count: number; total: number }>();
-
-      // User stats
-      const userStats = await db.prepare(`
-        SELECT 
-          COUNT(*) as total_users,
-          COUNT(CASE WHEN last_login_at >= datetime('now', '-7 days') THEN 1 END) as active_users
-        FROM users
-      `).first<{ total_users: number; active_users: number }>();
-
-      return createCORSResponse({
-        timeframe: '7 days',
-        revenue: { daily: revenue.results || [] },
-        stories: storyStats.results || [],
-        credits: creditStats.results || [],
-        users: userStats || { total_users: 0, active_users: 0 }
-      }, 200, env.CORS_ORIGIN);
-    } catch (error) {
-      return createCORSResponse({ error: error.message || 'Failed to fetch analytics' }, 500, env.CORS_ORIGIN);
-    }
-  }
-
-  // GET /api
\ No newline at end of file
+export default admin;
+export { admin };
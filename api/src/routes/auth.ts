@@ -1,39 +1,118 @@
 /**
  * Auth Routes - Hono Router
- * Endpoints: POST /api/auth/login, POST /api/auth/register
+ * Endpoints: POST /api/auth/login, POST /api/auth/register, POST /api/auth/google,
+ *            POST /api/auth/refresh, POST /api/auth/logout, POST /api/auth/logout-all,
+ *            GET /api/auth/sessions, POST /api/auth/password/forgot, POST /api/auth/password/reset,
+ *            POST /api/auth/email/verify, POST /api/auth/email/resend, POST /api/auth/admin/unlock
  */
 import { Hono } from 'hono';
-import { generateId, hashPassword, verifyPassword } from '../lib/crypto';
+import { generateId, hashPassword, passwordNeedsRehash, verifyPassword } from '../lib/crypto';
+import { exchangeGoogleCode } from '../lib/google';
+import { recordAdminAction } from '../lib/audit';
+import { signAccessToken } from '../lib/jwt';
+import { checkLoginLockout, clearLoginFailures, recordLoginFailure } from '../lib/lockout';
+import { BALANCE_SQL, ledgerSyncStatements, newTransactionId } from '../lib/ledger';
+import { getMailTransport } from '../lib/mail';
+import {
+  clientInfo,
+  createSession,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from '../lib/sessions';
+import { consumeOneTimeToken, createOneTimeToken } from '../lib/tokens';
+import { requireAdmin, requireAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/ratelimit';
 import type { Env } from '../index';
 
-// Extend Hono context type
-type AuthContext = {
-  Bindings: Env;
-};
-
-const auth = new Hono<AuthContext>();
-
-// JWT signing helper
-async function signJWT(payload: object, secret: string): Promise<string> {
-  const header = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
-  const body = btoa(JSON.stringify(payload));
-  const data = new TextEncoder().encode(`${header}.${body}`);
-  const key = await crypto.subtle.importKey(
-    'raw',
-    new TextEncoder().encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  const signature = await crypto.subtle.sign('HMAC', key, data);
-  const sig = btoa(String.fromCharCode(...new Uint8Array(signature)));
-  return `${header}.${body}.${sig}`;
+const auth = new Hono<{ Bindings: Env }>();
+
+// Create a KV session and sign an access token for it
+async function issueTokens(
+  c: { env: Env; req: { raw: Request } },
+  user: { id: string; email: string; isAdmin: boolean }
+): Promise<{ token: string; refreshToken: string }> {
+  const sessionId = generateId();
+  const token = await signAccessToken(c.env, {
+    userId: user.id,
+    email: user.email,
+    isAdmin: user.isAdmin,
+    sessionId,
+  });
+  const { refreshToken } = await createSession(c.env.SESSIONS, sessionId, user.id, clientInfo(c.req.raw));
+  return { token, refreshToken };
+}
+
+// Welcome bonus ledger entry (50 starting credits), shared by every sign-up path.
+// Safe to call twice: the idempotency key is checked before inserting.
+// Expires after WELCOME_BONUS_EXPIRY_DAYS when set.
+async function grantWelcomeBonus(env: Env, userId: string): Promise<void> {
+  const db = env.DB;
+  const expiryDays = parseInt(env.WELCOME_BONUS_EXPIRY_DAYS || '', 10) || null;
+  const transactionId = newTransactionId();
+  await db.batch([
+    db.prepare(
+      `INSERT INTO credit_transactions (transaction_id, user_id, transaction_type, credits_amount, balance_after, idempotency_key, reason, expires_at, created_at)
+       SELECT ?, ?, 'BONUS', 50, (${BALANCE_SQL}) + 50, ?, 'Welcome bonus',
+              CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', '+' || ? || ' days') END, datetime('now')
+       WHERE NOT EXISTS (SELECT 1 FROM credit_transactions WHERE idempotency_key = ?)`
+    ).bind(transactionId, userId, userId, `welcome_${userId}`, expiryDays, expiryDays, `welcome_${userId}`),
+    ...ledgerSyncStatements(db, transactionId),
+  ]);
+}
+
+// When enabled, email sign-ups get their welcome bonus on verification instead of at register
+function welcomeBonusHeld(env: Env): boolean {
+  return env.HOLD_WELCOME_BONUS_UNTIL_VERIFIED === 'true';
+}
+
+function appUrl(env: Env, path: string, token: string): string {
+  const base = env.APP_URL || env.CORS_ORIGIN || 'https://storychat.pages.dev';
+  return `${base}${path}?token=${encodeURIComponent(token)}`;
+}
+
+async function sendVerificationEmail(env: Env, user: { id: string; email: string }): Promise<void> {
+  const token = await createOneTimeToken(env.SESSIONS, 'email_verify', user.id);
+  await getMailTransport(env).send({
+    to: user.email,
+    subject: 'Verify your StoryChat email',
+    text: `Welcome to StoryChat! Confirm your email address to finish setting up your account:\n\n${appUrl(env, '/verify-email', token)}\n\nThis link expires in 3 days.`,
+  });
+}
+
+// Count a failed login against the email and IP; log the lockout so support can see it
+async function recordFailedLogin(
+  env: Env,
+  email: string,
+  ip: string | null,
+  userId: string | null
+): Promise<void> {
+  const byEmail = await recordLoginFailure(env.RATELIMIT, 'email', email);
+  const byIp = ip ? await recordLoginFailure(env.RATELIMIT, 'ip', ip) : null;
+
+  if (userId && (byEmail.lockedOut || byIp?.lockedOut)) {
+    await env.DB
+      .prepare(
+        `INSERT INTO events (user_id, event_type, metadata, platform, timestamp)
+         VALUES (?, 'login_locked', ?, 'api', datetime('now'))`
+      )
+      .bind(
+        userId,
+        JSON.stringify({
+          scope: byEmail.lockedOut ? 'email' : 'ip',
+          ip,
+          failedAttempts: byEmail.count,
+          lockedForSeconds: Math.max(byEmail.retryAfterSeconds, byIp?.retryAfterSeconds ?? 0),
+        })
+      )
+      .run();
+  }
 }
 
 // POST /api/auth/login - Email/Password login
 auth.post('/login', async (c) => {
   const db = c.env.DB;
-  const JWT_SECRET = c.env.JWT_SECRET;
 
   try {
     const body = await c.req.json<{ email: string; password: string }>();
@@ -43,10 +122,21 @@ auth.post('/login', async (c) => {
       return c.json({ error: 'Email and password required' }, 400);
     }
 
-    // Find user
+    // Refuse early while the email or IP is backed off / locked out
+    const ip = c.req.header('CF-Connecting-IP') ?? null;
+    const lockout = await checkLoginLockout(c.env.RATELIMIT, { email, ip });
+    if (lockout.locked) {
+      c.header('Retry-After', String(lockout.retryAfterSeconds));
+      return c.json(
+        { error: 'Too many failed login attempts', retryAfter: lockout.retryAfterSeconds },
+        429
+      );
+    }
+
+    // Find user; accounts linked to Google keep their password, Google-only ones have none
     const user = await db
       .prepare(
-        'SELECT id, email, password_hash, is_admin, display_name FROM users WHERE email = ? AND auth_provider = "email"'
+        'SELECT id, email, password_hash, is_admin, display_name, email_verified_at, suspended_at FROM users WHERE email = ?'
       )
       .bind(email)
       .first<{
@@ -55,36 +145,43 @@ auth.post('/login', async (c) => {
         password_hash: string;
         is_admin: number;
         display_name: string;
+        email_verified_at: string | null;
+        suspended_at: string | null;
       }>();
 
     if (!user || !user.password_hash) {
+      await recordFailedLogin(c.env, email, ip, null);
       return c.json({ error: 'Invalid credentials' }, 401);
     }
 
     // Verify password
     const passwordValid = await verifyPassword(password, user.password_hash);
     if (!passwordValid) {
+      await recordFailedLogin(c.env, email, ip, user.id);
       return c.json({ error: 'Invalid credentials' }, 401);
     }
 
-    // Create session
-    const sessionId = generateId();
-    const token = await signJWT(
-      {
-        userId: user.id,
-        email: user.email,
-        isAdmin: user.is_admin === 1,
-        sessionId,
-      },
-      JWT_SECRET
-    );
+    // A successful login resets the per-email counter (the IP counter decays on its own)
+    await clearLoginFailures(c.env.RATELIMIT, 'email', email);
 
-    // Store session in KV
-    await c.env.SESSIONS.put(
-      `session:${sessionId}`,
-      JSON.stringify({ userId: user.id, createdAt: Date.now() }),
-      { expirationTtl: 86400 } // 24 hours
-    );
+    if (user.suspended_at) {
+      return c.json({ error: 'Account suspended' }, 403);
+    }
+
+    // Transparently upgrade hashes stored under an older format or policy
+    if (passwordNeedsRehash(user.password_hash)) {
+      await db
+        .prepare('UPDATE users SET password_hash = ?, updated_at = datetime("now") WHERE id = ?')
+        .bind(await hashPassword(password), user.id)
+        .run();
+    }
+
+    // Create session
+    const { token, refreshToken } = await issueTokens(c, {
+      id: user.id,
+      email: user.email,
+      isAdmin: user.is_admin === 1,
+    });
 
     // Update last login
     await db
@@ -94,11 +191,13 @@ auth.post('/login', async (c) => {
 
     return c.json({
       token,
+      refreshToken,
       user: {
         id: user.id,
         email: user.email,
         displayName: user.display_name || user.email.split('@')[0],
         isAdmin: user.is_admin === 1,
+        emailVerified: !!user.email_verified_at,
       },
     });
   } catch (error: any) {
@@ -109,7 +208,6 @@ auth.post('/login', async (c) => {
 // POST /api/auth/register - Create email/password account
 auth.post('/register', async (c) => {
   const db = c.env.DB;
-  const JWT_SECRET = c.env.JWT_SECRET;
 
   try {
     const body = await c.req.json<{
@@ -147,40 +245,35 @@ auth.post('/register', async (c) => {
       .bind(userId, email, displayName || email.split('@')[0], passwordHash)
       .run();
 
-    // Give welcome credits (50 starting)
-    await db
-      .prepare(
-        `INSERT INTO credit_transactions (transaction_id, user_id, transaction_type, credits_amount, balance_after, idempotency_key, reason, created_at)
-         VALUES (?, ?, 'BONUS', 50, 50, ?, 'Welcome bonus', datetime('now'))`
-      )
-      .bind(`tx_${Date.now()}`, userId, `welcome_${userId}`)
-      .run();
+    // Give welcome credits (50 starting), unless held back until verification
+    if (!welcomeBonusHeld(c.env)) {
+      await grantWelcomeBonus(c.env, userId);
+    }
 
-    // Create session
-    const sessionId = generateId();
-    const token = await signJWT(
-      {
-        userId,
-        email,
-        isAdmin: false,
-        sessionId,
-      },
-      JWT_SECRET
-    );
+    // The account exists either way; a mail outage shouldn't fail the sign-up (and make the
+    // retry a duplicate email). The reader can ask for another link via /email/resend.
+    try {
+      await sendVerificationEmail(c.env, { id: userId, email });
+    } catch (error) {
+      console.error('[Auth] Verification email failed for', userId, error);
+    }
 
-    await c.env.SESSIONS.put(
-      `session:${sessionId}`,
-      JSON.stringify({ userId, createdAt: Date.now() }),
-      { expirationTtl: 86400 }
-    );
+    // Create session
+    const { token, refreshToken } = await issueTokens(c, {
+      id: userId,
+      email,
+      isAdmin: false,
+    });
 
     return c.json({
       token,
+      refreshToken,
       user: {
         id: userId,
         email,
         displayName: displayName || email.split('@')[0],
         isAdmin: false,
+        emailVerified: false,
       },
     });
   } catch (error: any) {
@@ -188,5 +281,395 @@ auth.post('/register', async (c) => {
   }
 });
 
+// POST /api/auth/google - Exchange a Google authorization code and sign in
+auth.post('/google', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<{ code: string; redirectUri?: string }>();
+    const { code, redirectUri } = body;
+
+    if (!code) {
+      return c.json({ error: 'Authorization code required' }, 400);
+    }
+
+    let profile;
+    try {
+      profile = await exchangeGoogleCode(code, {
+        clientId: c.env.GOOGLE_CLIENT_ID,
+        clientSecret: c.env.GOOGLE_CLIENT_SECRET,
+        // 'postmessage' is what Google Identity Services uses for popup code flows
+        redirectUri: redirectUri || c.env.GOOGLE_REDIRECT_URI || 'postmessage',
+        tokenUrl: c.env.GOOGLE_TOKEN_URL,
+      });
+    } catch (error: any) {
+      return c.json({ error: error.message || 'Google sign-in failed' }, 401);
+    }
+
+    type UserRow = {
+      id: string;
+      email: string;
+      is_admin: number;
+      display_name: string;
+      auth_provider_id: string | null;
+      suspended_at: string | null;
+      email_verified_at?: string | null;
+    };
+
+    // Returning Google user
+    let user = await db
+      .prepare(
+        'SELECT id, email, is_admin, display_name, auth_provider_id, suspended_at FROM users WHERE auth_provider_id = ?'
+      )
+      .bind(profile.sub)
+      .first<UserRow>();
+
+    let newUser = false;
+
+    if (!user) {
+      // Link to an existing account with the same (Google-verified) email
+      const existing = await db
+        .prepare(
+          'SELECT id, email, is_admin, display_name, auth_provider_id, suspended_at, email_verified_at FROM users WHERE email = ?'
+        )
+        .bind(profile.email)
+        .first<UserRow>();
+
+      if (existing) {
+        if (!profile.emailVerified) {
+          return c.json({ error: 'Google email not verified' }, 403);
+        }
+        if (existing.auth_provider_id && existing.auth_provider_id !== profile.sub) {
+          return c.json({ error: 'Email linked to a different Google account' }, 409);
+        }
+        // Nobody proved they own an unverified account's email, so whoever set its password
+        // may not be the Google user: drop that password and sign out its sessions
+        const unverified = !existing.email_verified_at;
+        await db
+          .prepare(
+            `UPDATE users SET auth_provider = 'google', auth_provider_id = ?, email_verified_at = COALESCE(email_verified_at, datetime('now')),
+               password_hash = CASE WHEN ? THEN NULL ELSE password_hash END, updated_at = datetime('now')
+             WHERE id = ?`
+          )
+          .bind(profile.sub, unverified ? 1 : 0, existing.id)
+          .run();
+        if (unverified) {
+          await revokeAllSessions(c.env.SESSIONS, existing.id);
+        }
+        // The bonus is granted when an account is created; linking only releases one that
+        // was held back waiting for this email to be verified
+        if (unverified && welcomeBonusHeld(c.env)) {
+          await grantWelcomeBonus(c.env, existing.id);
+        }
+        user = existing;
+      }
+    }
+
+    if (!user) {
+      const userId = generateId();
+      const displayName = profile.name || profile.email.split('@')[0];
+
+      await db
+        .prepare(
+          `INSERT INTO users (id, email, display_name, auth_provider, auth_provider_id, subscription_tier, email_verified_at, created_at)
+           VALUES (?, ?, ?, 'google', ?, 'free', CASE WHEN ? THEN datetime('now') END, datetime('now'))`
+        )
+        .bind(userId, profile.email, displayName, profile.sub, profile.emailVerified ? 1 : 0)
+        .run();
+
+      if (profile.emailVerified || !welcomeBonusHeld(c.env)) {
+        await grantWelcomeBonus(c.env, userId);
+      }
+
+      user = {
+        id: userId,
+        email: profile.email,
+        is_admin: 0,
+        display_name: displayName,
+        auth_provider_id: profile.sub,
+        suspended_at: null,
+      };
+      newUser = true;
+    }
+
+    if (user.suspended_at) {
+      return c.json({ error: 'Account suspended' }, 403);
+    }
+
+    // Create session
+    const { token, refreshToken } = await issueTokens(c, {
+      id: user.id,
+      email: user.email,
+      isAdmin: user.is_admin === 1,
+    });
+
+    await db
+      .prepare('UPDATE users SET last_login_at = datetime("now") WHERE id = ?')
+      .bind(user.id)
+      .run();
+
+    return c.json({
+      token,
+      refreshToken,
+      user: {
+        id: user.id,
+        email: user.email,
+        displayName: user.display_name || user.email.split('@')[0],
+        isAdmin: user.is_admin === 1,
+      },
+      newUser,
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Google login failed' }, 500);
+  }
+});
+
+// POST /api/auth/refresh - Rotate a refresh token for a fresh access token
+auth.post('/refresh', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<{ refreshToken: string }>();
+    if (!body.refreshToken) {
+      return c.json({ error: 'Refresh token required' }, 400);
+    }
+
+    const rotated = await rotateRefreshToken(c.env.SESSIONS, body.refreshToken, clientInfo(c.req.raw));
+    if (!rotated) {
+      return c.json({ error: 'Invalid or expired refresh token' }, 401);
+    }
+
+    // Re-read the user so role changes apply on the next token
+    const user = await db
+      .prepare('SELECT id, email, is_admin, suspended_at FROM users WHERE id = ?')
+      .bind(rotated.userId)
+      .first<{ id: string; email: string; is_admin: number; suspended_at: string | null }>();
+
+    if (!user || user.suspended_at) {
+      await revokeSession(c.env.SESSIONS, rotated.sessionId);
+      return c.json({ error: 'Invalid or expired refresh token' }, 401);
+    }
+
+    const token = await signAccessToken(c.env, {
+      userId: user.id,
+      email: user.email,
+      isAdmin: user.is_admin === 1,
+      sessionId: rotated.sessionId,
+    });
+
+    return c.json({ token, refreshToken: rotated.refreshToken });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Refresh failed' }, 500);
+  }
+});
+
+// POST /api/auth/logout - Revoke the current session
+auth.post('/logout', requireAuth, async (c) => {
+  try {
+    await revokeSession(c.env.SESSIONS, c.get('sessionId'));
+    return c.json({ success: true });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Logout failed' }, 500);
+  }
+});
+
+// POST /api/auth/logout-all - Revoke every session for the current user
+auth.post('/logout-all', requireAuth, async (c) => {
+  try {
+    const revoked = await revokeAllSessions(c.env.SESSIONS, c.get('userId'));
+    return c.json({ success: true, revoked });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Logout failed' }, 500);
+  }
+});
+
+// GET /api/auth/sessions - List active sessions (devices) for the current user
+auth.get('/sessions', requireAuth, async (c) => {
+  try {
+    const currentSessionId = c.get('sessionId');
+    const sessions = await listSessions(c.env.SESSIONS, c.get('userId'));
+    return c.json({
+      sessions: sessions.map(s => ({
+        id: s.sessionId,
+        userAgent: s.userAgent,
+        ip: s.ip,
+        createdAt: new Date(s.createdAt).toISOString(),
+        lastSeenAt: new Date(s.lastSeenAt).toISOString(),
+        current: s.sessionId === currentSessionId,
+      })),
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to list sessions' }, 500);
+  }
+});
+
+// POST /api/auth/password/forgot - Email a password reset link
+auth.post('/password/forgot', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<{ email: string }>();
+    if (!body.email) {
+      return c.json({ error: 'Email required' }, 400);
+    }
+
+    const user = await db
+      .prepare('SELECT id, email FROM users WHERE email = ? AND password_hash IS NOT NULL')
+      .bind(body.email)
+      .first<{ id: string; email: string }>();
+
+    if (user) {
+      const token = await createOneTimeToken(c.env.SESSIONS, 'password_reset', user.id);
+      await getMailTransport(c.env).send({
+        to: user.email,
+        subject: 'Reset your StoryChat password',
+        text: `Someone asked to reset the password for your StoryChat account. If it was you, choose a new password here:\n\n${appUrl(c.env, '/reset-password', token)}\n\nThis link expires in 1 hour. If you didn't ask for this, you can ignore this email.`,
+      });
+    }
+
+    // Same response either way so the endpoint can't be used to probe for accounts
+    return c.json({ success: true });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to start password reset' }, 500);
+  }
+});
+
+// POST /api/auth/password/reset - Set a new password with a reset token
+auth.post('/password/reset', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<{ token: string; password: string }>();
+    const { token, password } = body;
+
+    if (!token || !password || password.length < 6) {
+      return c.json({ error: 'Token and password (6+ chars) required' }, 400);
+    }
+
+    const userId = await consumeOneTimeToken(c.env.SESSIONS, 'password_reset', token);
+    if (!userId) {
+      return c.json({ error: 'Invalid or expired reset token' }, 400);
+    }
+
+    // The reset link proves control of the inbox, so it also verifies the email
+    await db
+      .prepare(
+        'UPDATE users SET password_hash = ?, email_verified_at = COALESCE(email_verified_at, datetime("now")), updated_at = datetime("now") WHERE id = ?'
+      )
+      .bind(await hashPassword(password), userId)
+      .run();
+
+    // Sign out every device that may have been using the old password
+    await revokeAllSessions(c.env.SESSIONS, userId);
+
+    return c.json({ success: true });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Password reset failed' }, 500);
+  }
+});
+
+// POST /api/auth/email/verify - Confirm an email address with a verification token
+auth.post('/email/verify', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<{ token: string }>();
+    if (!body.token) {
+      return c.json({ error: 'Token required' }, 400);
+    }
+
+    const userId = await consumeOneTimeToken(c.env.SESSIONS, 'email_verify', body.token);
+    if (!userId) {
+      return c.json({ error: 'Invalid or expired verification token' }, 400);
+    }
+
+    await db
+      .prepare(
+        'UPDATE users SET email_verified_at = COALESCE(email_verified_at, datetime("now")), updated_at = datetime("now") WHERE id = ?'
+      )
+      .bind(userId)
+      .run();
+
+    const bonusReleased = welcomeBonusHeld(c.env);
+    if (bonusReleased) {
+      await grantWelcomeBonus(c.env, userId);
+    }
+
+    return c.json({ success: true, bonusReleased });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Email verification failed' }, 500);
+  }
+});
+
+// POST /api/auth/email/resend - Send a fresh verification email to the current user
+auth.post('/email/resend', requireAuth, async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const user = await db
+      .prepare('SELECT id, email, email_verified_at FROM users WHERE id = ?')
+      .bind(c.get('userId'))
+      .first<{ id: string; email: string; email_verified_at: string | null }>();
+
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    if (user.email_verified_at) {
+      return c.json({ success: true, alreadyVerified: true });
+    }
+
+    await sendVerificationEmail(c.env, user);
+    return c.json({ success: true });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to send verification email' }, 500);
+  }
+});
+
+// POST /api/auth/admin/unlock - Admin clears a login lockout for an email and/or IP
+auth.post('/admin/unlock', requireAdmin, rateLimit('admin'), async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<{ email?: string; ip?: string; reason?: string }>();
+    const { email, ip, reason } = body;
+
+    if (!email && !ip) {
+      return c.json({ error: 'Email or IP required' }, 400);
+    }
+
+    const cleared = {
+      email: email ? await clearLoginFailures(c.env.RATELIMIT, 'email', email) : false,
+      ip: ip ? await clearLoginFailures(c.env.RATELIMIT, 'ip', ip) : false,
+    };
+
+    const user = email
+      ? await db.prepare('SELECT id FROM users WHERE email = ?').bind(email).first<{ id: string }>()
+      : null;
+
+    if (user) {
+      await db
+        .prepare(
+          `INSERT INTO events (user_id, event_type, metadata, platform, timestamp)
+           VALUES (?, 'login_unlocked', ?, 'admin', datetime('now'))`
+        )
+        .bind(user.id, JSON.stringify({ adminId: c.get('userId'), ip: ip ?? null, reason: reason ?? null, cleared }))
+        .run();
+    }
+
+    await recordAdminAction(c, {
+      action: 'auth.unlock',
+      targetType: 'login',
+      targetId: user?.id ?? email ?? ip ?? null,
+      reason: reason ?? null,
+      after: { cleared },
+      metadata: { email: email ?? null, ip: ip ?? null }
+    });
+
+    return c.json({ success: true, cleared });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to clear lockout' }, 500);
+  }
+});
+
 export default auth;
 export { auth };
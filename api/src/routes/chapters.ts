@@ -1,53 +1,92 @@
 /**
  * Chapters Routes - Hono Router
- * Endpoints: GET /api/chapters/:id (200 if free/unlocked, 402 if locked)
+ * Endpoints: GET /api/chapters/:id and GET /api/chapters/:id/messages (ChapterWithMessages if free/unlocked
+ *   or premium, 402 if locked),
+ *   PUT /api/chapters/:id/progress (forward-only reading position), POST /api/chapters/:id/complete
  */
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
+import { loadChapterMessages } from '../lib/messages';
+import { loadPricingContext, priceChapter } from '../lib/pricing';
+import { completeChapter, getProgress, saveProgress } from '../lib/progress';
+import { grantSubscriptionAccess, isPremium } from '../lib/subscriptions';
+import { requireAuth, type AuthEnv } from '../middleware/auth';
 import type { Env } from '../index';
 
-type ChaptersContext = { Bindings: Env; Variables: { userId?: string } };
-const chapters = new Hono<ChaptersContext>();
-
-async function verifyJWT(token: string, secret: string): Promise<any> {
-  const [h, b, s] = token.split('.');
-  if (!h || !b || !s) throw new Error('Invalid token');
-  const data = new TextEncoder().encode(`${h}.${b}`);
-  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
-  const sig = Uint8Array.from(atob(s), c => c.charCodeAt(0));
-  if (!await crypto.subtle.verify('HMAC', key, sig, data)) throw new Error('Invalid signature');
-  return JSON.parse(atob(b));
-}
+const chapters = new Hono<{ Bindings: Env }>();
 
-async function requireAuth(c: any, next: any) {
-  const authHeader = c.req.header('Authorization');
-  if (!authHeader?.startsWith('Bearer ')) return c.json({ error: 'Unauthorized' }, 401);
-  try {
-    const payload = await verifyJWT(authHeader.slice(7), c.env.JWT_SECRET);
-    if (!payload.userId) return c.json({ error: 'Invalid token' }, 401);
-    c.set('userId', payload.userId);
-    await next();
-  } catch { return c.json({ error: 'Invalid token' }, 401); }
+// Progress can only be recorded on chapters the reader can open; unpublished stories read as not found
+async function loadReadable(db: D1Database, userId: string, chapterId: string) {
+  const chapter = await db.prepare(`SELECT c.id, c.story_id, c.is_free, (SELECT COUNT(*) FROM messages WHERE chapter_id = c.id) as message_count, (SELECT 1 FROM user_chapters WHERE user_id = ? AND chapter_id = c.id AND unlocked_at IS NOT NULL) as unlocked FROM chapters c JOIN stories s ON c.story_id = s.id WHERE c.id = ? AND c.published_at IS NOT NULL AND s.status = 'PUBLISHED'`).bind(userId, chapterId).first<{ id: string; story_id: string; is_free: number; message_count: number; unlocked: number | null }>();
+  if (!chapter) return null;
+  return { chapter, readable: chapter.is_free === 1 || !!chapter.unlocked || await isPremium(db, userId) };
 }
 
-// GET /api/chapters/:id - Get chapter (200 free, 402 locked)
-chapters.get('/:id', requireAuth, async (c) => {
+// Serves the web ChapterWithMessages contract (200, see test/contract.test.ts) or the resolved price (402);
+// chapters of unpublished stories are 404 here and only visible through the studio
+async function serveChapter(c: Context<AuthEnv, '/:id'>) {
   const db = c.env.DB;
   const chapterId = c.req.param('id');
   const userId = c.get('userId');
   try {
-    const chapter = await db.prepare(`SELECT c.*, s.title as story_title FROM chapters c JOIN stories s ON c.story_id = s.id WHERE c.id = ?`).bind(chapterId).first<{ id: string; is_free: number; unlock_cost: number; story_id: string; chapter_number: number; title: string; story_title: string }>();
+    const chapter = await db.prepare(`SELECT c.*, s.title as story_title FROM chapters c JOIN stories s ON c.story_id = s.id WHERE c.id = ? AND c.published_at IS NOT NULL AND s.status = 'PUBLISHED'`).bind(chapterId).first<{ id: string; is_free: number; unlock_cost: number; story_id: string; chapter_number: number; title: string; total_reads: number; story_title: string }>();
     if (!chapter) return c.json({ error: 'Chapter not found' }, 404);
     const unlocked = await db.prepare(`SELECT unlocked_at FROM user_chapters WHERE user_id = ? AND chapter_id = ? AND unlocked_at IS NOT NULL`).bind(userId, chapterId).first();
-    const isUnlocked = chapter.is_free === 1 || !!unlocked;
+    let isUnlocked = chapter.is_free === 1 || !!unlocked;
+    if (!isUnlocked && await isPremium(db, userId)) {
+      await grantSubscriptionAccess(db, userId, chapter.story_id, [chapterId]);
+      isUnlocked = true;
+    }
     if (!isUnlocked) {
-      return c.json({ error: 'Chapter locked', unlockCost: chapter.unlock_cost, storyId: chapter.story_id, chapterId: chapter.id }, 402);
+      const price = priceChapter(await loadPricingContext(db, chapter.story_id, userId), chapter);
+      return c.json({ error: 'Chapter locked', unlockCost: price.cost, baseUnlockCost: price.baseCost, discounts: price.discounts, storyId: chapter.story_id, chapterId: chapter.id }, 402);
     }
-    const messages = await db.prepare(`SELECT m.*, ch.name as character_name FROM messages m LEFT JOIN characters ch ON m.character_id = ch.id WHERE m.chapter_id = ? ORDER BY m.sequence_index`).bind(chapterId).all<{ id: string; sequence_index: number; sender_type: string; character_name: string; content: string }>();
-    const msgList = (messages.results || []).map(m => ({ id: m.id, sequenceIndex: m.sequence_index, senderType: m.sender_type, senderName: m.character_name || 'Narrator', content: m.content }));
-    return c.json({ chapter: { id: chapter.id, chapterNumber: chapter.chapter_number, title: chapter.title, storyTitle: chapter.story_title, messages: msgList } });
+    const [messages, progress] = await Promise.all([loadChapterMessages(c.env, chapterId, new URL(c.req.url).origin, chapter.is_free !== 1), getProgress(db, userId, chapterId)]);
+    return c.json({ chapter: { id: chapter.id, storyId: chapter.story_id, chapterNumber: chapter.chapter_number, title: chapter.title, storyTitle: chapter.story_title, totalReads: chapter.total_reads ?? 0, messages, messageCount: messages.length, progress } });
   } catch (error: any) {
     return c.json({ error: error.message || 'Failed to fetch chapter' }, 500);
   }
+}
+
+// GET /api/chapters/:id - Get chapter with messages (200 free, unlocked or premium, 402 locked)
+chapters.get('/:id', requireAuth, serveChapter);
+
+// GET /api/chapters/:id/messages - Same payload; the path the web client calls
+chapters.get('/:id/messages', requireAuth, serveChapter);
+
+// PUT /api/chapters/:id/progress - Save the last message read; never moves backwards, so repeated or late writes are harmless
+chapters.put('/:id/progress', requireAuth, async (c) => {
+  const db = c.env.DB;
+  const chapterId = c.req.param('id');
+  const userId = c.get('userId');
+  try {
+    const { lastMessageRead } = await c.req.json<{ lastMessageRead: number }>();
+    if (!Number.isInteger(lastMessageRead) || lastMessageRead < 0) return c.json({ error: 'lastMessageRead must be a non-negative integer' }, 400);
+    const found = await loadReadable(db, userId, chapterId);
+    if (!found) return c.json({ error: 'Chapter not found' }, 404);
+    if (!found.readable) return c.json({ error: 'Chapter locked' }, 402);
+    const index = Math.min(lastMessageRead, Math.max(found.chapter.message_count - 1, 0));
+    const progress = await saveProgress(db, { userId, storyId: found.chapter.story_id, chapterId, lastMessageRead: index });
+    return c.json({ success: true, chapterId, progress });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to save progress' }, 500);
+  }
+});
+
+// POST /api/chapters/:id/complete - Mark a chapter finished (idempotent; read counts only move on the first call)
+chapters.post('/:id/complete', requireAuth, async (c) => {
+  const db = c.env.DB;
+  const chapterId = c.req.param('id');
+  const userId = c.get('userId');
+  try {
+    const found = await loadReadable(db, userId, chapterId);
+    if (!found) return c.json({ error: 'Chapter not found' }, 404);
+    if (!found.readable) return c.json({ error: 'Chapter locked' }, 402);
+    const next = await db.prepare(`SELECT id FROM chapters WHERE story_id = ? AND published_at IS NOT NULL AND chapter_number > (SELECT chapter_number FROM chapters WHERE id = ?) ORDER BY chapter_number LIMIT 1`).bind(found.chapter.story_id, chapterId).first<{ id: string }>();
+    const result = await completeChapter(db, { userId, storyId: found.chapter.story_id, chapterId, lastMessageRead: Math.max(found.chapter.message_count - 1, 0) });
+    return c.json({ success: true, chapterId, progress: result.progress, firstCompletion: result.firstCompletion, nextChapterId: next?.id ?? null });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to complete chapter' }, 500);
+  }
 });
 
 export default chapters;
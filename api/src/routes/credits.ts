@@ -1,112 +1,163 @@
 /**
  * Credits Routes - Hono Router
- * Endpoints: POST /api/credits/unlock (deduct 10 credits, return chapter), POST /api/credits/admin/add
+ * Endpoints: POST /api/credits/unlock (deduct the chapter price atomically, return chapter; free for premium),
+ *   POST /api/credits/unlock-story (discounted bundle of every locked chapter), GET /api/credits/balance,
+ *   GET /api/credits/transactions (cursor-paginated history, filter by type and date),
+ *   GET /api/credits/packs, POST /api/credits/checkout (pending purchase, settled by /api/payments/webhook),
+ *   POST /api/credits/redeem (promo codes, one PROMO transaction per redemption)
+ * Admin credit grants live in routes/admin.ts (POST /api/admin/credits/add)
  */
 import { Hono } from 'hono';
 import { generateId } from '../lib/crypto';
+import { getBalance, getCreditSummary, toSqlDateTime } from '../lib/ledger';
+import { getPaymentProvider } from '../lib/payments';
+import { loadPricingContext, priceBundle, priceChapter } from '../lib/pricing';
+import { redeemPromoCode } from '../lib/promo';
+import { grantSubscriptionAccess, isPremium } from '../lib/subscriptions';
+import { decodeCursor, listTransactions, RECENT_TRANSACTIONS_LIMIT, TRANSACTION_TYPES } from '../lib/transactions';
+import { unlockChapter, unlockStory } from '../lib/unlock';
+import { requireAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/ratelimit';
 import type { Env } from '../index';
 
-type CreditsContext = { Bindings: Env; Variables: { userId?: string; isAdmin?: boolean } };
-const credits = new Hono<CreditsContext>();
+const credits = new Hono<{ Bindings: Env }>();
 
-async function verifyJWT(token: string, secret: string): Promise<any> {
-  const [h, b, s] = token.split('.');
-  if (!h || !b || !s) throw new Error('Invalid token');
-  const data = new TextEncoder().encode(`${h}.${b}`);
-  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
-  const sig = Uint8Array.from(atob(s), c => c.charCodeAt(0));
-  if (!await crypto.subtle.verify('HMAC', key, sig, data)) throw new Error('Invalid signature');
-  return JSON.parse(atob(b));
-}
-
-async function requireAuth(c: any, next: any) {
-  const authHeader = c.req.header('Authorization');
-  if (!authHeader?.startsWith('Bearer ')) return c.json({ error: 'Unauthorized' }, 401);
-  try {
-    const payload = await verifyJWT(authHeader.slice(7), c.env.JWT_SECRET);
-    if (!payload.userId) return c.json({ error: 'Invalid token' }, 401);
-    c.set('userId', payload.userId);
-    c.set('isAdmin', payload.isAdmin === true);
-    await next();
-  } catch { return c.json({ error: 'Invalid token' }, 401); }
-}
-
-async function requireAdmin(c: any, next: any) {
-  const authHeader = c.req.header('Authorization');
-  if (!authHeader?.startsWith('Bearer ')) return c.json({ error: 'Unauthorized' }, 401);
-  try {
-    const payload = await verifyJWT(authHeader.slice(7), c.env.JWT_SECRET);
-    if (!payload.userId) return c.json({ error: 'Invalid token' }, 401);
-    if (!payload.isAdmin) return c.json({ error: 'Admin access required' }, 403);
-    c.set('userId', payload.userId);
-    c.set('isAdmin', true);
-    await next();
-  } catch { return c.json({ error: 'Invalid token' }, 401); }
-}
-
-async function getBalance(db: D1Database, userId: string): Promise<number> {
-  const result = await db.prepare(`SELECT COALESCE(SUM(CASE WHEN transaction_type IN ('PURCHASE', 'REFUND', 'ADMIN_ADD', 'BONUS', 'PROMO') THEN credits_amount ELSE -credits_amount END), 0) as balance FROM credit_transactions WHERE user_id = ?`).bind(userId).first<{ balance: number }>();
-  return result?.balance ?? 0;
-}
-
-// POST /api/credits/unlock - Unlock a chapter with credits
-credits.post('/unlock', requireAuth, async (c) => {
+// POST /api/credits/unlock - Unlock a chapter with credits at its resolved price
+credits.post('/unlock', requireAuth, rateLimit('credits'), async (c) => {
   const db = c.env.DB;
   const userId = c.get('userId');
   try {
     const body = await c.req.json<{ chapterId: string; idempotencyKey?: string }>();
     const { chapterId, idempotencyKey } = body;
     if (!chapterId) return c.json({ error: 'Chapter ID required' }, 400);
-    const chapter = await db.prepare(`SELECT c.* FROM chapters c WHERE c.id = ?`).bind(chapterId).first<{ id: string; story_id: string; is_free: number; unlock_cost: number }>();
+    const chapter = await db.prepare(`SELECT c.* FROM chapters c JOIN stories s ON c.story_id = s.id WHERE c.id = ? AND c.published_at IS NOT NULL AND s.status = 'PUBLISHED'`).bind(chapterId).first<{ id: string; story_id: string; is_free: number; unlock_cost: number }>();
     if (!chapter) return c.json({ error: 'Chapter not found' }, 404);
-    const alreadyUnlocked = await db.prepare(`SELECT id FROM user_chapters WHERE user_id = ? AND chapter_id = ? AND unlocked_at IS NOT NULL`).bind(userId, chapterId).first();
-    if (alreadyUnlocked) return c.json({ success: true, message: 'Already unlocked', chapterId }, 200);
     if (chapter.is_free === 1) {
-      await db.prepare(`INSERT INTO user_chapters (id, user_id, story_id, chapter_id, unlocked_at, created_at) VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`).bind(generateId(), userId, chapter.story_id, chapterId).run();
+      await db.prepare(`INSERT INTO user_chapters (id, user_id, story_id, chapter_id, unlocked_at, created_at) VALUES (?, ?, ?, ?, datetime('now'), datetime('now')) ON CONFLICT(user_id, chapter_id) DO UPDATE SET unlocked_at = COALESCE(user_chapters.unlocked_at, excluded.unlocked_at), updated_at = datetime('now')`).bind(generateId(), userId, chapter.story_id, chapterId).run();
       return c.json({ success: true, message: 'Chapter unlocked (free)', totalCost: 0 });
     }
-    const balance = await getBalance(db, userId);
-    if (balance < 10) return c.json({ error: 'Insufficient credits', required: 10, balance }, 402);
-    const newBalance = balance - 10;
-    const txId = `tx_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-    const key = idempotencyKey || `unlock_${userId}_${chapterId}_${Date.now()}`;
-    await db.prepare(`INSERT INTO credit_transactions (transaction_id, user_id, transaction_type, credits_amount, balance_after, story_id, chapter_id, idempotency_key, reason, created_at) VALUES (?, ?, 'CONSUMPTION', 10, ?, ?, ?, ?, 'Unlock chapter', datetime('now'))`).bind(txId, userId, newBalance, chapter.story_id, chapterId, key).run();
-    await db.prepare(`INSERT INTO user_chapters (id, user_id, story_id, chapter_id, unlocked_at, created_at) VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`).bind(generateId(), userId, chapter.story_id, chapterId).run();
+    if (await isPremium(db, userId)) {
+      await grantSubscriptionAccess(db, userId, chapter.story_id, [chapterId]);
+      return c.json({ success: true, message: 'Chapter unlocked (premium)', chapterId, entitlement: 'subscription', totalCost: 0, creditsUsed: 0, creditsRemaining: await getBalance(db, userId) });
+    }
+    const price = priceChapter(await loadPricingContext(db, chapter.story_id, userId), chapter);
+    const result = await unlockChapter(db, { userId, storyId: chapter.story_id, chapterId, cost: price.cost, idempotencyKey });
+    if (result.status === 'already_unlocked') return c.json({ success: true, message: 'Already unlocked', chapterId }, 200);
+    if (result.status === 'insufficient') return c.json({ error: 'Insufficient credits', required: price.cost, balance: result.balance }, 402);
+    if (result.status === 'key_conflict') return c.json({ error: 'Idempotency key already used for another chapter' }, 409);
     const messages = await db.prepare(`SELECT m.*, ch.name as character_name FROM messages m LEFT JOIN characters ch ON m.character_id = ch.id WHERE m.chapter_id = ? ORDER BY m.sequence_index`).bind(chapterId).all<{ id: string; content: string; sender_type: string; character_name: string | null }>();
-    return c.json({ success: true, message: 'Chapter unlocked', chapterId, creditsUsed: 10, creditsRemaining: newBalance, messages: messages.results || [] });
+    return c.json({ success: true, message: 'Chapter unlocked', chapterId, transactionId: result.transactionId, replayed: result.replayed, creditsUsed: result.creditsUsed, creditsRemaining: result.balance, messages: messages.results || [] });
   } catch (error: any) {
     return c.json({ error: error.message || 'Failed to unlock chapter' }, 500);
   }
 });
 
-// POST /api/credits/admin/add - Admin add credits to user
-credits.post('/admin/add', requireAdmin, async (c) => {
+// POST /api/credits/unlock-story - Unlock every remaining chapter of a story at the bundle price
+credits.post('/unlock-story', requireAuth, rateLimit('credits'), async (c) => {
   const db = c.env.DB;
+  const userId = c.get('userId');
   try {
-    const body = await c.req.json<{ userId: string; amount: number; reason?: string }>();
-    const { userId: targetUserId, amount, reason } = body;
-    if (!targetUserId || !amount || amount <= 0) return c.json({ error: 'User ID and positive amount required' }, 400);
-    const currentBalance = await getBalance(db, targetUserId);
-    const newBalance = currentBalance + amount;
-    const txId = `tx_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-    await db.prepare(`INSERT INTO credit_transactions (transaction_id, user_id, transaction_type, credits_amount, balance_after, idempotency_key, reason, created_at) VALUES (?, ?, 'ADMIN_ADD', ?, ?, ?, ?, datetime('now'))`).bind(txId, targetUserId, amount, newBalance, `admin_${Date.now()}`, reason || 'Admin credit grant').run();
-    return c.json({ success: true, userId: targetUserId, amount, newBalance, transactionId: txId });
+    const { storyId, idempotencyKey } = await c.req.json<{ storyId: string; idempotencyKey?: string }>();
+    if (!storyId) return c.json({ error: 'Story ID required' }, 400);
+    const story = await db.prepare(`SELECT id FROM stories WHERE id = ? AND status = 'PUBLISHED'`).bind(storyId).first();
+    if (!story) return c.json({ error: 'Story not found' }, 404);
+    const locked = await db.prepare(`SELECT c.id, c.is_free, c.unlock_cost FROM chapters c WHERE c.story_id = ? AND c.published_at IS NOT NULL AND NOT EXISTS (SELECT 1 FROM user_chapters uc WHERE uc.user_id = ? AND uc.chapter_id = c.id AND uc.unlocked_at IS NOT NULL) ORDER BY c.chapter_number`).bind(storyId, userId).all<{ id: string; is_free: number; unlock_cost: number }>();
+    if (await isPremium(db, userId)) {
+      const chapterIds = (locked.results || []).filter(ch => ch.is_free !== 1).map(ch => ch.id);
+      await grantSubscriptionAccess(db, userId, storyId, chapterIds);
+      return c.json({ success: true, message: 'Story unlocked (premium)', storyId, chapterIds, entitlement: 'subscription', creditsUsed: 0, creditsRemaining: await getBalance(db, userId) });
+    }
+    const bundle = priceBundle(await loadPricingContext(db, storyId, userId), locked.results || []);
+    const result = await unlockStory(db, { userId, storyId, chapters: bundle?.chapters ?? [], cost: bundle?.cost ?? 0, subtotal: bundle?.subtotal ?? 0, discountPercent: bundle?.discountPercent ?? 0, idempotencyKey });
+    if (result.status === 'insufficient') return c.json({ error: 'Insufficient credits', required: bundle!.cost, balance: result.balance }, 402);
+    if (result.status === 'empty') return c.json({ error: 'No bundle available for this story' }, 400);
+    if (result.status === 'stale') return c.json({ error: 'Bundle price changed, please retry' }, 409);
+    if (result.status === 'key_conflict') return c.json({ error: 'Idempotency key already used for another unlock' }, 409);
+    return c.json({ success: true, message: 'Story unlocked', storyId, chapterIds: result.chapterIds, transactionId: result.transactionId, replayed: result.replayed, subtotal: bundle?.subtotal, discountPercent: bundle?.discountPercent, creditsUsed: result.creditsUsed, creditsRemaining: result.balance });
   } catch (error: any) {
-    return c.json({ error: error.message || 'Failed to add credits' }, 500);
+    return c.json({ error: error.message || 'Failed to unlock story' }, 500);
   }
 });
 
-// GET /api/credits/balance - Get user credit balance
+// GET /api/credits/balance - Get user credit balance, purchased vs promotional breakdown, next expiry and latest transactions
 credits.get('/balance', requireAuth, async (c) => {
   const db = c.env.DB;
   const userId = c.get('userId');
   try {
-    const balance = await getBalance(db, userId);
-    return c.json({ balance, userId });
+    const [summary, recent] = await Promise.all([getCreditSummary(db, userId), listTransactions(db, userId, { limit: RECENT_TRANSACTIONS_LIMIT })]);
+    return c.json({ ...summary, userId, recentTransactions: recent.transactions });
   } catch (error: any) {
     return c.json({ error: error.message || 'Failed to get balance' }, 500);
   }
 });
 
+// GET /api/credits/transactions - Credit history, newest first (?cursor=&limit=&type=PURCHASE,CONSUMPTION&from=&to=)
+credits.get('/transactions', requireAuth, async (c) => {
+  const userId = c.get('userId');
+  try {
+    const { cursor, type, from, to } = c.req.query();
+    if (cursor && !decodeCursor(cursor)) return c.json({ error: 'Invalid cursor' }, 400);
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '20', 10) || 20, 1), 100);
+    const types = type ? type.split(',').map(t => t.trim().toUpperCase()).filter(Boolean) : [];
+    const unknown = types.filter(t => !TRANSACTION_TYPES.includes(t));
+    if (unknown.length) return c.json({ error: `Unknown transaction type: ${unknown.join(', ')}` }, 400);
+    const range = [from, to].map(d => (d ? new Date(d) : null));
+    if (range.some(d => d && isNaN(d.getTime()))) return c.json({ error: 'from and to must be valid dates' }, 400);
+    const page = await listTransactions(c.env.DB, userId, { types, cursor, limit, from: range[0] ? toSqlDateTime(range[0]) : undefined, to: range[1] ? toSqlDateTime(range[1]) : undefined });
+    return c.json({ ...page, limit });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch transactions' }, 500);
+  }
+});
+
+// GET /api/credits/packs - Purchasable credit packs
+credits.get('/packs', async (c) => {
+  try {
+    const packs = await c.env.DB.prepare(`SELECT id, name, credits, price_cents, currency, is_popular FROM credit_packs WHERE is_active = 1 ORDER BY sort_order`).all<{ id: string; name: string; credits: number; price_cents: number; currency: string; is_popular: number }>();
+    return c.json({ packs: (packs.results || []).map(p => ({ id: p.id, name: p.name, credits: p.credits, priceCents: p.price_cents, currency: p.currency, popular: p.is_popular === 1 })) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch credit packs' }, 500);
+  }
+});
+
+// POST /api/credits/checkout - Start a pack purchase; credits land when the provider webhook confirms payment
+credits.post('/checkout', requireAuth, rateLimit('credits'), async (c) => {
+  const db = c.env.DB;
+  const userId = c.get('userId');
+  try {
+    const { packId } = await c.req.json<{ packId: string }>();
+    if (!packId) return c.json({ error: 'Pack ID required' }, 400);
+    const pack = await db.prepare(`SELECT id, name, credits, price_cents, currency FROM credit_packs WHERE id = ? AND is_active = 1`).bind(packId).first<{ id: string; name: string; credits: number; price_cents: number; currency: string }>();
+    if (!pack) return c.json({ error: 'Credit pack not found' }, 404);
+    const provider = getPaymentProvider(c.env);
+    const purchaseId = `pur_${generateId()}`;
+    await db.prepare(`INSERT INTO credit_purchases (id, user_id, pack_id, credits, price_cents, currency, provider, status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, 'PENDING', datetime('now'))`).bind(purchaseId, userId, pack.id, pack.credits, pack.price_cents, pack.currency, provider.name).run();
+    const base = c.env.APP_URL || c.env.CORS_ORIGIN || 'https://storychat.pages.dev';
+    const session = await provider.createCheckout({ purchaseId, userId, packId: pack.id, name: pack.name, priceCents: pack.price_cents, currency: pack.currency, successUrl: `${base}/?purchase=${purchaseId}`, cancelUrl: `${base}/?purchase=${purchaseId}&cancelled=1` });
+    await db.prepare(`UPDATE credit_purchases SET provider_ref = ? WHERE id = ?`).bind(session.providerRef, purchaseId).run();
+    return c.json({ purchaseId, checkoutUrl: session.checkoutUrl, status: 'PENDING', pack: { id: pack.id, credits: pack.credits, priceCents: pack.price_cents, currency: pack.currency } }, 201);
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to start checkout' }, 500);
+  }
+});
+
+// POST /api/credits/redeem - Redeem a promo code for PROMO credits (retries return the original redemption)
+credits.post('/redeem', requireAuth, rateLimit('credits'), async (c) => {
+  const userId = c.get('userId');
+  try {
+    const { code, storyId } = await c.req.json<{ code: string; storyId?: string }>();
+    if (!code || typeof code !== 'string') return c.json({ error: 'Promo code required' }, 400);
+    const result = await redeemPromoCode(c.env.DB, { userId, code, storyId });
+    if (result.status === 'not_found') return c.json({ error: 'Invalid promo code' }, 404);
+    if (result.status === 'inactive') return c.json({ error: 'This promo code is not active' }, 410);
+    if (result.status === 'exhausted') return c.json({ error: 'This promo code has been fully redeemed' }, 410);
+    if (result.status === 'wrong_story') return c.json({ error: 'This promo code is only valid for another story', storyId: result.storyId }, 403);
+    if (result.status === 'already_redeemed') return c.json({ success: true, message: 'Promo code already redeemed', transactionId: result.transactionId, creditsAdded: result.credits, replayed: true, creditsRemaining: await getBalance(c.env.DB, userId) });
+    return c.json({ success: true, message: 'Promo code redeemed', transactionId: result.transactionId, creditsAdded: result.credits, replayed: false, creditsRemaining: result.balance, storyId: result.storyId });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to redeem promo code' }, 500);
+  }
+});
+
 export default credits;
 export { credits };
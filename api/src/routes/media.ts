@@ -0,0 +1,92 @@
+/**
+ * Media Routes - Hono Router
+ * Endpoints: GET /api/media/:key (streams from MEDIA_BUCKET with Range, ETag/If-None-Match and cache headers)
+ * Media used by paid chapters only streams with a valid ?exp=&sig= signature, handed out with the
+ * chapter payload once the reader has access (lib/media.ts).
+ */
+import { Hono } from 'hono';
+import { isProtectedMedia, verifyMediaSignature } from '../lib/media';
+import type { Env } from '../index';
+
+const media = new Hono<{ Bindings: Env }>();
+
+// Public media (covers, avatars, free chapters) can sit in shared caches for a day
+const PUBLIC_CACHE_CONTROL = 'public, max-age=86400';
+
+// First and last byte served for an R2 range
+function byteRange(range: R2Range, size: number): [number, number] {
+  if ('suffix' in range) {
+    return [Math.max(size - range.suffix, 0), size - 1];
+  }
+  const start = range.offset ?? 0;
+  const end = range.length !== undefined ? start + range.length - 1 : size - 1;
+  return [start, Math.min(end, size - 1)];
+}
+
+function keyFromPath(path: string): string | null {
+  const prefix = '/api/media/';
+  if (!path.startsWith(prefix)) return null;
+  try {
+    return path.slice(prefix.length).split('/').map(decodeURIComponent).join('/') || null;
+  } catch {
+    return null;
+  }
+}
+
+// GET /api/media/:key - Stream a media object (key may contain '/')
+media.get('/*', async (c) => {
+  const key = keyFromPath(c.req.path);
+
+  if (!key) {
+    return c.json({ error: 'Media key required' }, 400);
+  }
+
+  try {
+    let cacheControl = PUBLIC_CACHE_CONTROL;
+
+    if (await isProtectedMedia(c.env.DB, key)) {
+      const remaining = await verifyMediaSignature(c.env, key, c.req.query('exp'), c.req.query('sig'));
+      if (remaining === null) {
+        return c.json({ error: 'This media needs a valid signed URL' }, 403);
+      }
+      // Never outlive the signature, and keep it out of shared caches
+      cacheControl = `private, max-age=${remaining}`;
+    }
+
+    const object = await c.env.MEDIA_BUCKET.get(key, {
+      range: c.req.raw.headers,
+      onlyIf: c.req.raw.headers,
+    });
+
+    if (!object) {
+      return c.json({ error: 'Media not found' }, 404);
+    }
+
+    const headers = new Headers();
+    object.writeHttpMetadata(headers);
+    headers.set('ETag', object.httpEtag);
+    headers.set('Cache-Control', cacheControl);
+    headers.set('Accept-Ranges', 'bytes');
+
+    // R2 returns no body when a conditional header fails
+    if (!('body' in object)) {
+      const notModified = !!c.req.header('If-None-Match') || !!c.req.header('If-Modified-Since');
+      return new Response(null, { status: notModified ? 304 : 412, headers });
+    }
+
+    if (object.range && c.req.header('Range')) {
+      const [start, end] = byteRange(object.range, object.size);
+      headers.set('Content-Range', `bytes ${start}-${end}/${object.size}`);
+      headers.set('Content-Length', String(end - start + 1));
+      return new Response(object.body, { status: 206, headers });
+    }
+
+    headers.set('Content-Length', String(object.size));
+    return new Response(object.body, { status: 200, headers });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch media' }, 500);
+  }
+});
+
+export default media;
+export { media };
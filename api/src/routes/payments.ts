@@ -0,0 +1,117 @@
+/**
+ * Payments Routes - Hono Router
+ * Endpoints: POST /api/payments/webhook (provider-signed; settles credit pack purchases)
+ */
+import { Hono } from 'hono';
+import { BALANCE_SQL, ledgerSyncStatements, newTransactionId } from '../lib/ledger';
+import { getPaymentProvider } from '../lib/payments';
+import type { Env } from '../index';
+
+const payments = new Hono<{ Bindings: Env }>();
+
+type PurchaseRow = {
+  id: string;
+  user_id: string;
+  pack_id: string;
+  credits: number;
+  price_cents: number;
+  currency: string;
+  provider: string;
+  provider_ref: string | null;
+  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'REFUNDED';
+};
+
+// POST /api/payments/webhook - Settle or fail a purchase. Safe to deliver more than once:
+// the ledger row is keyed on the purchase id, so retries never credit twice.
+payments.post('/webhook', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const provider = getPaymentProvider(c.env);
+    const event = await provider.verifyWebhook(c.req.raw);
+
+    if (!event) {
+      return c.json({ error: 'Invalid signature' }, 401);
+    }
+
+    const purchase = await db
+      .prepare('SELECT * FROM credit_purchases WHERE id = ? AND provider = ?')
+      .bind(event.purchaseId, provider.name)
+      .first<PurchaseRow>();
+
+    if (!purchase || purchase.provider_ref !== event.providerRef) {
+      return c.json({ error: 'Purchase not found' }, 404);
+    }
+
+    // Settled or already reversed (refund, chargeback): a redelivered success changes nothing
+    if (purchase.status === 'COMPLETED' || purchase.status === 'REFUNDED') {
+      return c.json({ received: true, status: purchase.status, duplicate: true });
+    }
+
+    if (event.type === 'payment.failed') {
+      await db
+        .prepare(`UPDATE credit_purchases SET status = 'FAILED' WHERE id = ? AND status = 'PENDING'`)
+        .bind(purchase.id)
+        .run();
+      return c.json({ received: true, status: 'FAILED' });
+    }
+
+    if (event.amountCents !== purchase.price_cents || event.currency !== purchase.currency) {
+      console.error('[Payments] Amount mismatch for purchase', purchase.id, event);
+      return c.json({ error: 'Amount mismatch' }, 400);
+    }
+
+    // The ledger insert is skipped if a retried delivery already wrote the row for this
+    // purchase; the sync statements and the event then no-op along with it
+    const transactionId = newTransactionId();
+    const idempotencyKey = `purchase_${purchase.id}`;
+    const metadata = { packId: purchase.pack_id, provider: provider.name, providerRef: purchase.provider_ref, eventId: event.eventId };
+    await db.batch([
+      db.prepare(`
+        INSERT INTO credit_transactions (
+          transaction_id, user_id, transaction_type, credits_amount, balance_after,
+          purchase_id, reason, currency, amount_paid, idempotency_key, metadata, created_at
+        )
+        SELECT ?, ?, 'PURCHASE', ?, (${BALANCE_SQL}) + ?, ?, ?, ?, ?, ?, ?, datetime('now')
+        WHERE NOT EXISTS (SELECT 1 FROM credit_transactions WHERE idempotency_key = ?)
+      `).bind(
+        transactionId, purchase.user_id, purchase.credits, purchase.user_id, purchase.credits,
+        purchase.id, `Purchased ${purchase.credits} credits`, purchase.currency, purchase.price_cents / 100,
+        idempotencyKey, JSON.stringify(metadata), idempotencyKey
+      ),
+      ...ledgerSyncStatements(db, transactionId),
+
+      db.prepare(`
+        UPDATE credit_purchases
+        SET status = 'COMPLETED',
+            transaction_id = (SELECT transaction_id FROM credit_transactions WHERE idempotency_key = ?),
+            completed_at = datetime('now')
+        WHERE id = ? AND status IN ('PENDING', 'FAILED')
+      `).bind(idempotencyKey, purchase.id),
+
+      db.prepare(`
+        INSERT INTO events (user_id, event_type, credits_delta, metadata, platform, timestamp)
+        SELECT user_id, 'purchase_completed', credits_amount, ?, 'web', datetime('now')
+        FROM credit_transactions WHERE transaction_id = ?
+      `).bind(JSON.stringify({ purchaseId: purchase.id, packId: purchase.pack_id, amountCents: purchase.price_cents, currency: purchase.currency }), transactionId),
+    ]);
+
+    const ledger = await db
+      .prepare('SELECT transaction_id, balance_after FROM credit_transactions WHERE idempotency_key = ?')
+      .bind(idempotencyKey)
+      .first<{ transaction_id: string; balance_after: number }>();
+
+    return c.json({
+      received: true,
+      status: 'COMPLETED',
+      transactionId: ledger?.transaction_id,
+      newBalance: ledger?.balance_after
+    });
+  } catch (error: any) {
+    console.error('[Payments] Webhook error:', error);
+    return c.json({ error: error.message || 'Webhook processing failed' }, 500);
+  }
+});
+
+export default payments;
+export { payments };
@@ -1,43 +1,32 @@
 /**
  * Stories Routes - Hono Router
- * Endpoints: GET /api/stories, GET /api/stories/:id
+ * Endpoints: GET /api/stories, GET /api/stories/:id (chapter prices, bundle price and reading progress for the current reader)
  */
 import { Hono } from 'hono';
+import { mediaUrl } from '../lib/media';
+import { loadPricingContext, priceBundle, priceChapter } from '../lib/pricing';
+import { toProgress, type ProgressRow } from '../lib/progress';
+import { isPremium } from '../lib/subscriptions';
+import { optionalAuth } from '../middleware/auth';
 import type { Env } from '../index';
 
-type StoriesContext = { Bindings: Env; Variables: { userId?: string } };
-const stories = new Hono<StoriesContext>();
-
-async function verifyJWT(token: string, secret: string): Promise<any> {
-  const [header, body, signature] = token.split('.');
-  if (!header || !body || !signature) throw new Error('Invalid token');
-  const data = new TextEncoder().encode(`${header}.${body}`);
-  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
-  const sigBytes = Uint8Array.from(atob(signature), c => c.charCodeAt(0));
-  const valid = await crypto.subtle.verify('HMAC', key, sigBytes, data);
-  if (!valid) throw new Error('Invalid signature');
-  return JSON.parse(atob(body));
-}
-
-async function optionalAuth(c: any, next: any) {
-  const authHeader = c.req.header('Authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    try {
-      const payload = await verifyJWT(authHeader.slice(7), c.env.JWT_SECRET);
-      if (payload.userId) c.set('userId', payload.userId);
-    } catch { /* continue without user */ }
-  }
-  await next();
-}
+const stories = new Hono<{ Bindings: Env }>();
 
 // GET /api/stories - List all published stories
 stories.get('/', optionalAuth, async (c) => {
   const db = c.env.DB;
   const userId = c.get('userId');
   try {
-    const result = await db.prepare(`SELECT s.*, (SELECT COUNT(*) FROM chapters WHERE story_id = s.id) as chapter_count FROM stories s WHERE s.status = 'PUBLISHED' ORDER BY s.published_at DESC`).all<{ id: string; title: string; genre: string; synopsis: string; cover_image_key: string; total_reads: number; chapter_count: number }>();
+    const result = await db.prepare(`SELECT s.*, (SELECT COUNT(*) FROM chapters WHERE story_id = s.id AND published_at IS NOT NULL) as chapter_count FROM stories s WHERE s.status = 'PUBLISHED' ORDER BY s.published_at DESC`).all<{ id: string; title: string; genre: string; synopsis: string; cover_image_key: string; total_reads: number; chapter_count: number }>();
     const storyList = result.results || [];
-    return c.json({ stories: storyList.map(s => ({ id: s.id, title: s.title, genre: s.genre, synopsis: s.synopsis, coverImage: s.cover_image_key, totalReads: s.total_reads, chapterCount: s.chapter_count })), count: storyList.length });
+    const origin = new URL(c.req.url).origin;
+    // Per-reader progress: chapters unlocked and the position in the most recently read chapter
+    const progress = userId ? await db.prepare(`SELECT uc.story_id, SUM(uc.unlocked_at IS NOT NULL) as unlocked_count, (SELECT last_message_index FROM user_chapters r WHERE r.user_id = uc.user_id AND r.story_id = uc.story_id ORDER BY r.updated_at DESC LIMIT 1) as last_message_index FROM user_chapters uc WHERE uc.user_id = ? GROUP BY uc.story_id`).bind(userId).all<{ story_id: string; unlocked_count: number; last_message_index: number }>() : null;
+    const byStory = new Map((progress?.results || []).map(p => [p.story_id, p]));
+    return c.json({ stories: storyList.map(s => {
+      const p = byStory.get(s.id);
+      return { id: s.id, title: s.title, genre: s.genre, synopsis: s.synopsis, coverImage: mediaUrl(origin, s.cover_image_key), totalReads: s.total_reads, chapterCount: s.chapter_count, ...(userId && { started: !!p, unlockedChapterCount: p?.unlocked_count ?? 0, lastMessageRead: p?.last_message_index ?? 0 }) };
+    }), count: storyList.length });
   } catch (error: any) {
     return c.json({ error: error.message || 'Failed to fetch stories' }, 500);
   }
@@ -51,9 +40,25 @@ stories.get('/:id', optionalAuth, async (c) => {
   try {
     const story = await db.prepare(`SELECT * FROM stories WHERE id = ? AND status = 'PUBLISHED'`).bind(storyId).first<{ id: string; title: string; genre: string; synopsis: string; cover_image_key: string; total_reads: number }>();
     if (!story) return c.json({ error: 'Story not found' }, 404);
-    const chapters = await db.prepare(`SELECT id, chapter_number, title, is_free, unlock_cost FROM chapters WHERE story_id = ? ORDER BY chapter_number`).bind(storyId).all<{ id: string; chapter_number: number; title: string; is_free: number; unlock_cost: number }>();
-    const chapterList = (chapters.results || []).map(c => ({ id: c.id, chapterNumber: c.chapter_number, title: c.title, isFree: c.is_free === 1, unlockCost: c.unlock_cost }));
-    return c.json({ story: { id: story.id, title: story.title, genre: story.genre, synopsis: story.synopsis, coverImage: story.cover_image_key, totalReads: story.total_reads, chapters: chapterList } });
+    const chapters = await db.prepare(`SELECT id, chapter_number, title, is_free, unlock_cost FROM chapters WHERE story_id = ? AND published_at IS NOT NULL ORDER BY chapter_number`).bind(storyId).all<{ id: string; chapter_number: number; title: string; is_free: number; unlock_cost: number }>();
+    const owned = userId ? await db.prepare(`SELECT chapter_id, unlocked_at, last_message_index, completed_at, updated_at FROM user_chapters WHERE user_id = ? AND story_id = ? ORDER BY updated_at DESC`).bind(userId, storyId).all<ProgressRow & { chapter_id: string; unlocked_at: string | null }>() : null;
+    const rows = owned?.results || [];
+    const unlockedIds = new Set(rows.filter(r => r.unlocked_at).map(r => r.chapter_id));
+    const progressById = new Map(rows.map(r => [r.chapter_id, toProgress(r)]));
+    const pricing = await loadPricingContext(db, storyId, userId);
+    const premium = !!userId && await isPremium(db, userId); // every chapter is readable, nothing to price
+    const chapterList = (chapters.results || []).map(c => {
+      const price = priceChapter(pricing, c);
+      const progress = progressById.get(c.id) ?? toProgress();
+      return { id: c.id, chapterNumber: c.chapter_number, title: c.title, isFree: c.is_free === 1, unlocked: premium || c.is_free === 1 || unlockedIds.has(c.id), unlockCost: price.cost, baseUnlockCost: price.baseCost, discounts: price.discounts, completed: progress.completed, lastMessageRead: progress.lastMessageRead };
+    });
+    // Resume at the most recently read unfinished chapter, else the first chapter not yet finished
+    const resume = rows.find(r => !r.completed_at && r.updated_at) ?? null;
+    const resumeChapterId = resume?.chapter_id ?? chapterList.find(ch => !ch.completed)?.id ?? null;
+    const readerProgress = userId ? { completedChapters: chapterList.filter(ch => ch.completed).length, resumeChapterId, lastMessageRead: resume ? progressById.get(resume.chapter_id)!.lastMessageRead : 0 } : null;
+    const bundle = premium ? null : priceBundle(pricing, (chapters.results || []).filter(c => !unlockedIds.has(c.id)));
+    const bundlePrice = bundle && { chapterCount: bundle.chapters.length, subtotal: bundle.subtotal, discountPercent: bundle.discountPercent, cost: bundle.cost };
+    return c.json({ story: { id: story.id, title: story.title, genre: story.genre, synopsis: story.synopsis, coverImage: mediaUrl(new URL(c.req.url).origin, story.cover_image_key), totalReads: story.total_reads, chapters: chapterList, bundle: bundlePrice, progress: readerProgress } });
   } catch (error: any) {
     return c.json({ error: error.message || 'Failed to fetch story' }, 500);
   }
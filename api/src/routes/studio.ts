@@ -0,0 +1,932 @@
+/**
+ * Studio Routes - Hono Router (content management for authors and admins)
+ * Endpoints: GET /api/studio/stories, POST /api/studio/stories,
+ *            GET /api/studio/stories/:id, PATCH /api/studio/stories/:id, DELETE /api/studio/stories/:id,
+ *            POST /api/studio/stories/:id/status (DRAFT -> PUBLISHED -> ARCHIVED),
+ *            POST /api/studio/stories/:id/characters, PATCH /api/studio/characters/:id, DELETE /api/studio/characters/:id,
+ *            POST /api/studio/stories/:id/chapters, PATCH /api/studio/chapters/:id, DELETE /api/studio/chapters/:id,
+ *            POST /api/studio/chapters/:id/publish (a chapter added to a published story),
+ *            GET /api/studio/chapters/:id/messages, POST /api/studio/chapters/:id/messages,
+ *            PUT /api/studio/chapters/:id/messages/order (bulk reorder),
+ *            PATCH /api/studio/messages/:id, DELETE /api/studio/messages/:id,
+ *            POST /api/studio/media (image upload, optionally linked to a cover, avatar or message)
+ * Authors manage their own stories (stories.author_id); admins manage every story.
+ * Chapter numbers and message sequence indexes are kept contiguous from 1 (lib/studio.ts).
+ */
+import { Hono, type Context } from 'hono';
+import { generateId } from '../lib/crypto';
+import { mediaUrl } from '../lib/media';
+import {
+  findChapterPublishProblems,
+  findPublishProblems,
+  isStoryStatus,
+  MEDIA_TYPES,
+  SENDER_TYPES,
+  shiftChaptersStatements,
+  shiftMessagesStatement,
+  STORY_GENRES,
+  STORY_TRANSITIONS,
+  totalChaptersStatement,
+} from '../lib/studio';
+import { isValidBlurhash, maxUploadBytes, sniffImageType, storeUpload, UPLOAD_TYPES } from '../lib/uploads';
+import { requireAuth, type AuthEnv } from '../middleware/auth';
+
+const studio = new Hono<AuthEnv>();
+
+studio.use('*', requireAuth);
+
+type StoryRow = {
+  id: string;
+  title: string;
+  author_id: string;
+  genre: string;
+  synopsis: string | null;
+  cover_image_key: string | null;
+  status: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+  total_chapters: number;
+  total_reads: number;
+  chapter_unlock_cost: number | null;
+  bundle_discount_percent: number | null;
+  created_at: string;
+  updated_at: string;
+  published_at: string | null;
+};
+
+type ChapterRow = {
+  id: string;
+  story_id: string;
+  chapter_number: number;
+  title: string | null;
+  is_free: number;
+  unlock_cost: number;
+  published_at: string | null;
+};
+
+type CharacterRow = {
+  id: string;
+  story_id: string;
+  name: string;
+  avatar_key: string | null;
+  color_theme: string | null;
+  is_narrator: number;
+  display_order: number;
+};
+
+type MessageRow = {
+  id: string;
+  chapter_id: string;
+  sequence_index: number;
+  sender_type: string;
+  character_id: string | null;
+  content: string;
+  media_key: string | null;
+  media_type: string | null;
+  delay_seconds: number;
+};
+
+// Body fields accepted by each PATCH, mapped to their column
+const STORY_FIELDS: Record<string, string> = {
+  title: 'title',
+  genre: 'genre',
+  synopsis: 'synopsis',
+  coverImageKey: 'cover_image_key',
+  chapterUnlockCost: 'chapter_unlock_cost',
+  bundleDiscountPercent: 'bundle_discount_percent',
+};
+
+const CHAPTER_FIELDS: Record<string, string> = {
+  title: 'title',
+  isFree: 'is_free',
+  unlockCost: 'unlock_cost',
+};
+
+const CHARACTER_FIELDS: Record<string, string> = {
+  name: 'name',
+  avatarKey: 'avatar_key',
+  colorTheme: 'color_theme',
+  isNarrator: 'is_narrator',
+  displayOrder: 'display_order',
+};
+
+const MESSAGE_FIELDS: Record<string, string> = {
+  senderType: 'sender_type',
+  characterId: 'character_id',
+  content: 'content',
+  mediaKey: 'media_key',
+  mediaType: 'media_type',
+  delaySeconds: 'delay_seconds',
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Rows an upload can be linked to: stories.cover_image_key, characters.avatar_key, messages.media_key
+const UPLOAD_TARGETS = ['cover', 'avatar', 'message'];
+
+function toStudioStory(s: StoryRow) {
+  return {
+    id: s.id,
+    title: s.title,
+    authorId: s.author_id,
+    genre: s.genre,
+    synopsis: s.synopsis,
+    coverImageKey: s.cover_image_key,
+    status: s.status,
+    totalChapters: s.total_chapters,
+    totalReads: s.total_reads,
+    chapterUnlockCost: s.chapter_unlock_cost,
+    bundleDiscountPercent: s.bundle_discount_percent,
+    createdAt: s.created_at,
+    updatedAt: s.updated_at,
+    publishedAt: s.published_at,
+  };
+}
+
+function toStudioChapter(ch: ChapterRow & { message_count?: number }) {
+  return {
+    id: ch.id,
+    storyId: ch.story_id,
+    chapterNumber: ch.chapter_number,
+    title: ch.title,
+    isFree: ch.is_free === 1,
+    unlockCost: ch.unlock_cost,
+    messageCount: ch.message_count ?? 0,
+    publishedAt: ch.published_at,
+  };
+}
+
+function toStudioCharacter(ch: CharacterRow) {
+  return {
+    id: ch.id,
+    storyId: ch.story_id,
+    name: ch.name,
+    avatarKey: ch.avatar_key,
+    colorTheme: ch.color_theme,
+    isNarrator: ch.is_narrator === 1,
+    displayOrder: ch.display_order,
+  };
+}
+
+function toStudioMessage(m: MessageRow) {
+  return {
+    id: m.id,
+    chapterId: m.chapter_id,
+    sequenceIndex: m.sequence_index,
+    senderType: m.sender_type,
+    characterId: m.character_id,
+    content: m.content,
+    mediaKey: m.media_key,
+    mediaType: m.media_type,
+    delaySeconds: m.delay_seconds,
+  };
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === null || typeof value === 'string';
+}
+
+// Each validator checks only the fields present, so it serves both create and PATCH bodies
+function storyError(body: Record<string, any>): string | null {
+  if ('title' in body && (typeof body.title !== 'string' || !body.title.trim())) return 'title is required';
+  if ('genre' in body && !STORY_GENRES.includes(body.genre)) return `genre must be one of: ${STORY_GENRES.join(', ')}`;
+  if ('synopsis' in body && !isOptionalString(body.synopsis)) return 'synopsis must be a string';
+  if ('coverImageKey' in body && !isOptionalString(body.coverImageKey)) return 'coverImageKey must be a string';
+  if ('chapterUnlockCost' in body && body.chapterUnlockCost !== null && !isNonNegativeInteger(body.chapterUnlockCost)) {
+    return 'chapterUnlockCost must be a non-negative integer or null';
+  }
+  if ('bundleDiscountPercent' in body && body.bundleDiscountPercent !== null
+    && !(isNonNegativeInteger(body.bundleDiscountPercent) && body.bundleDiscountPercent <= 100)) {
+    return 'bundleDiscountPercent must be an integer between 0 and 100 or null';
+  }
+  return null;
+}
+
+function chapterError(body: Record<string, any>): string | null {
+  if ('title' in body && (typeof body.title !== 'string' || !body.title.trim())) return 'title is required';
+  if ('isFree' in body && typeof body.isFree !== 'boolean') return 'isFree must be a boolean';
+  if ('unlockCost' in body && !isNonNegativeInteger(body.unlockCost)) return 'unlockCost must be a non-negative integer';
+  return null;
+}
+
+function characterError(body: Record<string, any>): string | null {
+  if ('name' in body && (typeof body.name !== 'string' || !body.name.trim())) return 'name is required';
+  if ('avatarKey' in body && !isOptionalString(body.avatarKey)) return 'avatarKey must be a string';
+  if ('colorTheme' in body && body.colorTheme !== null && !HEX_COLOR.test(body.colorTheme)) return 'colorTheme must be a hex color like #4CAF50';
+  if ('isNarrator' in body && typeof body.isNarrator !== 'boolean') return 'isNarrator must be a boolean';
+  if ('displayOrder' in body && !isNonNegativeInteger(body.displayOrder)) return 'displayOrder must be a non-negative integer';
+  return null;
+}
+
+function messageError(body: Record<string, any>): string | null {
+  if ('senderType' in body && !SENDER_TYPES.includes(body.senderType)) return `senderType must be one of: ${SENDER_TYPES.join(', ')}`;
+  if ('content' in body && (typeof body.content !== 'string' || !body.content.trim())) return 'content is required';
+  if ('characterId' in body && !isOptionalString(body.characterId)) return 'characterId must be a string';
+  if ('mediaKey' in body && !isOptionalString(body.mediaKey)) return 'mediaKey must be a string';
+  if ('mediaType' in body && body.mediaType !== null && !MEDIA_TYPES.includes(body.mediaType)) return `mediaType must be one of: ${MEDIA_TYPES.join(', ')}`;
+  if ('delaySeconds' in body && (typeof body.delaySeconds !== 'number' || body.delaySeconds < 0 || body.delaySeconds > 60)) {
+    return 'delaySeconds must be a number between 0 and 60';
+  }
+  return null;
+}
+
+// "column = ?" pairs for the PATCH fields present in the body (booleans stored as 0/1)
+function patchColumns(body: Record<string, unknown>, fields: Record<string, string>): [string[], unknown[]] {
+  const present = Object.keys(fields).filter(field => field in body);
+  return [
+    present.map(field => `${fields[field]} = ?`),
+    present.map(field => (typeof body[field] === 'boolean' ? (body[field] ? 1 : 0) : body[field])),
+  ];
+}
+
+// Ownership checks: everything below resolves to a story the caller may edit, or 404
+async function findStory(c: Context<AuthEnv>, storyId: string): Promise<StoryRow | null> {
+  const story = await c.env.DB.prepare('SELECT * FROM stories WHERE id = ?').bind(storyId).first<StoryRow>();
+  if (!story || (story.author_id !== c.get('userId') && !c.get('isAdmin'))) return null;
+  return story;
+}
+
+async function findChapter(c: Context<AuthEnv>, chapterId: string) {
+  const chapter = await c.env.DB.prepare('SELECT * FROM chapters WHERE id = ?').bind(chapterId).first<ChapterRow>();
+  const story = chapter && await findStory(c, chapter.story_id);
+  return chapter && story ? { chapter, story } : null;
+}
+
+async function findCharacter(c: Context<AuthEnv>, characterId: string) {
+  const character = await c.env.DB.prepare('SELECT * FROM characters WHERE id = ?').bind(characterId).first<CharacterRow>();
+  const story = character && await findStory(c, character.story_id);
+  return character && story ? { character, story } : null;
+}
+
+async function findMessage(c: Context<AuthEnv>, messageId: string) {
+  const message = await c.env.DB.prepare('SELECT * FROM messages WHERE id = ?').bind(messageId).first<MessageRow>();
+  const found = message && await findChapter(c, message.chapter_id);
+  return message && found ? { message, ...found } : null;
+}
+
+async function characterInStory(db: D1Database, characterId: string | null | undefined, storyId: string): Promise<boolean> {
+  if (!characterId) return true;
+  const row = await db.prepare('SELECT 1 FROM characters WHERE id = ? AND story_id = ?').bind(characterId, storyId).first();
+  return !!row;
+}
+
+// A draft may have been published (and unlocked) before going back to draft
+async function hasReaders(db: D1Database, column: 'story_id' | 'chapter_id', id: string): Promise<boolean> {
+  const row = await db.prepare(`SELECT 1 FROM user_chapters WHERE ${column} = ? AND unlocked_at IS NOT NULL LIMIT 1`).bind(id).first();
+  return !!row;
+}
+
+async function chapterCount(db: D1Database, storyId: string): Promise<number> {
+  const row = await db.prepare('SELECT COUNT(*) as count FROM chapters WHERE story_id = ?').bind(storyId).first<{ count: number }>();
+  return row?.count ?? 0;
+}
+
+async function messageCount(db: D1Database, chapterId: string): Promise<number> {
+  const row = await db.prepare('SELECT COUNT(*) as count FROM messages WHERE chapter_id = ?').bind(chapterId).first<{ count: number }>();
+  return row?.count ?? 0;
+}
+
+// GET /api/studio/stories - Stories the caller can edit (?status=DRAFT|PUBLISHED|ARCHIVED)
+studio.get('/stories', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const status = c.req.query('status');
+    if (status && !isStoryStatus(status)) {
+      return c.json({ error: 'Unknown status' }, 400);
+    }
+
+    const filters: Array<[string, unknown]> = [
+      ['author_id = ?', c.get('isAdmin') ? undefined : c.get('userId')],
+      ['status = ?', status],
+    ];
+    const conditions = filters.filter(([, value]) => value !== undefined);
+    const where = conditions.length ? `WHERE ${conditions.map(([sql]) => sql).join(' AND ')}` : '';
+
+    const result = await db.prepare(`SELECT * FROM stories ${where} ORDER BY updated_at DESC`)
+      .bind(...conditions.map(([, value]) => value))
+      .all<StoryRow>();
+
+    return c.json({ stories: (result.results || []).map(toStudioStory) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch stories' }, 500);
+  }
+});
+
+// POST /api/studio/stories - Create a draft story owned by the caller
+studio.post('/stories', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<Record<string, any>>();
+    const invalid = storyError(body) ?? (!body.title ? 'title is required' : !body.genre ? 'genre is required' : null);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const id = `story_${generateId()}`;
+    await db.prepare(`
+      INSERT INTO stories (
+        id, title, author_id, genre, synopsis, cover_image_key, status, total_chapters,
+        chapter_unlock_cost, bundle_discount_percent, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, 'DRAFT', 0, ?, ?, datetime('now'), datetime('now'))
+    `).bind(
+      id, body.title.trim(), c.get('userId'), body.genre, body.synopsis ?? null, body.coverImageKey ?? null,
+      body.chapterUnlockCost ?? null, body.bundleDiscountPercent ?? null
+    ).run();
+
+    const story = await db.prepare('SELECT * FROM stories WHERE id = ?').bind(id).first<StoryRow>();
+    return c.json({ story: toStudioStory(story!) }, 201);
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to create story' }, 500);
+  }
+});
+
+// GET /api/studio/stories/:id - Story with its characters and chapters (any status)
+studio.get('/stories/:id', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const story = await findStory(c, c.req.param('id'));
+    if (!story) {
+      return c.json({ error: 'Story not found' }, 404);
+    }
+
+    const [characterResult, chapterResult] = await db.batch([
+      db.prepare('SELECT * FROM characters WHERE story_id = ? ORDER BY display_order, name').bind(story.id),
+      db.prepare(`
+        SELECT c.*, (SELECT COUNT(*) FROM messages WHERE chapter_id = c.id) as message_count
+        FROM chapters c WHERE c.story_id = ? ORDER BY c.chapter_number
+      `).bind(story.id),
+    ]);
+
+    return c.json({
+      story: {
+        ...toStudioStory(story),
+        characters: ((characterResult as D1Result<CharacterRow>).results || []).map(toStudioCharacter),
+        chapters: ((chapterResult as D1Result<ChapterRow & { message_count: number }>).results || []).map(toStudioChapter)
+      }
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch story' }, 500);
+  }
+});
+
+// PATCH /api/studio/stories/:id - Edit story details (status changes go through /status)
+studio.patch('/stories/:id', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<Record<string, any>>();
+    const invalid = storyError(body);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const story = await findStory(c, c.req.param('id'));
+    if (!story) {
+      return c.json({ error: 'Story not found' }, 404);
+    }
+
+    const [columns, params] = patchColumns(body, STORY_FIELDS);
+    if (columns.length === 0) {
+      return c.json({ error: 'Nothing to update' }, 400);
+    }
+
+    await db.prepare(`UPDATE stories SET ${columns.join(', ')}, updated_at = datetime('now') WHERE id = ?`)
+      .bind(...params, story.id).run();
+
+    const updated = await db.prepare('SELECT * FROM stories WHERE id = ?').bind(story.id).first<StoryRow>();
+    return c.json({ story: toStudioStory(updated!) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to update story' }, 500);
+  }
+});
+
+// POST /api/studio/stories/:id/status - Move between DRAFT, PUBLISHED and ARCHIVED
+studio.post('/stories/:id/status', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const { status } = await c.req.json<{ status: string }>();
+    if (!isStoryStatus(status)) {
+      return c.json({ error: 'status must be one of: DRAFT, PUBLISHED, ARCHIVED' }, 400);
+    }
+
+    const story = await findStory(c, c.req.param('id'));
+    if (!story) {
+      return c.json({ error: 'Story not found' }, 404);
+    }
+    if (story.status === status) {
+      return c.json({ story: toStudioStory(story) });
+    }
+    if (!STORY_TRANSITIONS[story.status].includes(status)) {
+      return c.json({ error: `A ${story.status} story can't move to ${status}` }, 409);
+    }
+
+    if (status === 'PUBLISHED') {
+      const problems = await findPublishProblems(db, story.id);
+      if (problems.length > 0) {
+        return c.json({ error: 'Story is not ready to publish', problems }, 422);
+      }
+    }
+
+    await db.batch([
+      db.prepare(`
+        UPDATE stories
+        SET status = ?,
+            published_at = CASE WHEN ? = 'PUBLISHED' THEN COALESCE(published_at, datetime('now')) ELSE published_at END,
+            updated_at = datetime('now')
+        WHERE id = ? AND status = ?
+      `).bind(status, status, story.id, story.status),
+      db.prepare(`
+        UPDATE chapters SET published_at = COALESCE(published_at, datetime('now'))
+        WHERE story_id = ? AND ? = 'PUBLISHED'
+      `).bind(story.id, status),
+      totalChaptersStatement(db, story.id),
+    ]);
+
+    const updated = await db.prepare('SELECT * FROM stories WHERE id = ?').bind(story.id).first<StoryRow>();
+    return c.json({ story: toStudioStory(updated!) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to change story status' }, 500);
+  }
+});
+
+// DELETE /api/studio/stories/:id - Delete a draft story and everything in it
+studio.delete('/stories/:id', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const story = await findStory(c, c.req.param('id'));
+    if (!story) {
+      return c.json({ error: 'Story not found' }, 404);
+    }
+    if (story.status !== 'DRAFT') {
+      return c.json({ error: 'Only draft stories can be deleted; archive it instead' }, 409);
+    }
+    if (await hasReaders(db, 'story_id', story.id)) {
+      return c.json({ error: 'Readers have unlocked chapters in this story; archive it instead' }, 409);
+    }
+
+    await db.batch([
+      db.prepare('DELETE FROM messages WHERE chapter_id IN (SELECT id FROM chapters WHERE story_id = ?)').bind(story.id),
+      db.prepare('DELETE FROM chapters WHERE story_id = ?').bind(story.id),
+      db.prepare('DELETE FROM characters WHERE story_id = ?').bind(story.id),
+      db.prepare('DELETE FROM stories WHERE id = ?').bind(story.id),
+    ]);
+
+    return c.json({ success: true, id: story.id });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to delete story' }, 500);
+  }
+});
+
+// POST /api/studio/stories/:id/characters - Add a character
+studio.post('/stories/:id/characters', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<Record<string, any>>();
+    const invalid = characterError(body) ?? (!body.name ? 'name is required' : null);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const story = await findStory(c, c.req.param('id'));
+    if (!story) {
+      return c.json({ error: 'Story not found' }, 404);
+    }
+
+    const id = `char_${generateId()}`;
+    await db.prepare(`
+      INSERT INTO characters (id, story_id, name, avatar_key, color_theme, is_narrator, display_order)
+      VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, (SELECT COALESCE(MAX(display_order), 0) + 1 FROM characters WHERE story_id = ?)))
+    `).bind(
+      id, story.id, body.name.trim(), body.avatarKey ?? null, body.colorTheme ?? null,
+      body.isNarrator ? 1 : 0, body.displayOrder ?? null, story.id
+    ).run();
+
+    const character = await db.prepare('SELECT * FROM characters WHERE id = ?').bind(id).first<CharacterRow>();
+    return c.json({ character: toStudioCharacter(character!) }, 201);
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to create character' }, 500);
+  }
+});
+
+// PATCH /api/studio/characters/:id - Edit a character
+studio.patch('/characters/:id', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<Record<string, any>>();
+    const invalid = characterError(body);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const found = await findCharacter(c, c.req.param('id'));
+    if (!found) {
+      return c.json({ error: 'Character not found' }, 404);
+    }
+
+    const [columns, params] = patchColumns(body, CHARACTER_FIELDS);
+    if (columns.length === 0) {
+      return c.json({ error: 'Nothing to update' }, 400);
+    }
+
+    await db.prepare(`UPDATE characters SET ${columns.join(', ')} WHERE id = ?`).bind(...params, found.character.id).run();
+
+    const character = await db.prepare('SELECT * FROM characters WHERE id = ?').bind(found.character.id).first<CharacterRow>();
+    return c.json({ character: toStudioCharacter(character!) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to update character' }, 500);
+  }
+});
+
+// DELETE /api/studio/characters/:id - Remove a character no message uses
+studio.delete('/characters/:id', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const found = await findCharacter(c, c.req.param('id'));
+    if (!found) {
+      return c.json({ error: 'Character not found' }, 404);
+    }
+
+    const used = await db.prepare('SELECT COUNT(*) as count FROM messages WHERE character_id = ?').bind(found.character.id).first<{ count: number }>();
+    if (used && used.count > 0) {
+      return c.json({ error: `Character is used by ${used.count} message(s)` }, 409);
+    }
+
+    await db.prepare('DELETE FROM characters WHERE id = ?').bind(found.character.id).run();
+    return c.json({ success: true, id: found.character.id });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to delete character' }, 500);
+  }
+});
+
+// POST /api/studio/stories/:id/chapters - Add an unpublished chapter (appended, or inserted at chapterNumber
+// while the story isn't published, so chapters readers own keep their numbers)
+studio.post('/stories/:id/chapters', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<Record<string, any>>();
+    const invalid = chapterError(body) ?? (!body.title ? 'title is required' : null);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const story = await findStory(c, c.req.param('id'));
+    if (!story) {
+      return c.json({ error: 'Story not found' }, 404);
+    }
+
+    const count = await chapterCount(db, story.id);
+    const chapterNumber = body.chapterNumber ?? count + 1;
+    if (!Number.isInteger(chapterNumber) || chapterNumber < 1 || chapterNumber > count + 1) {
+      return c.json({ error: `chapterNumber must be between 1 and ${count + 1}` }, 400);
+    }
+    if (story.status === 'PUBLISHED' && chapterNumber !== count + 1) {
+      return c.json({ error: 'Chapters can only be appended to a published story' }, 409);
+    }
+
+    const id = `ch_${generateId()}`;
+    await db.batch([
+      ...shiftChaptersStatements(db, story.id, chapterNumber, 1),
+      db.prepare(`
+        INSERT INTO chapters (id, story_id, chapter_number, title, is_free, unlock_cost, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+      `).bind(id, story.id, chapterNumber, body.title.trim(), body.isFree ? 1 : 0, body.unlockCost ?? 10),
+      totalChaptersStatement(db, story.id),
+    ]);
+
+    const chapter = await db.prepare('SELECT * FROM chapters WHERE id = ?').bind(id).first<ChapterRow>();
+    return c.json({ chapter: toStudioChapter(chapter!) }, 201);
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to create chapter' }, 500);
+  }
+});
+
+// POST /api/studio/chapters/:id/publish - Show a chapter added to a published story once it has messages
+studio.post('/chapters/:id/publish', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const found = await findChapter(c, c.req.param('id'));
+    if (!found) {
+      return c.json({ error: 'Chapter not found' }, 404);
+    }
+    if (found.story.status !== 'PUBLISHED') {
+      return c.json({ error: 'Chapters are published with their story' }, 409);
+    }
+
+    if (!found.chapter.published_at) {
+      const problems = await findChapterPublishProblems(db, found.chapter.id);
+      if (problems.length > 0) {
+        return c.json({ error: 'Chapter is not ready to publish', problems }, 422);
+      }
+      await db.prepare(`UPDATE chapters SET published_at = COALESCE(published_at, datetime('now')) WHERE id = ?`)
+        .bind(found.chapter.id).run();
+    }
+
+    const chapter = await db.prepare('SELECT * FROM chapters WHERE id = ?').bind(found.chapter.id).first<ChapterRow>();
+    return c.json({ chapter: toStudioChapter({ ...chapter!, message_count: await messageCount(db, found.chapter.id) }) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to publish chapter' }, 500);
+  }
+});
+
+// PATCH /api/studio/chapters/:id - Edit title and pricing
+studio.patch('/chapters/:id', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<Record<string, any>>();
+    const invalid = chapterError(body);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const found = await findChapter(c, c.req.param('id'));
+    if (!found) {
+      return c.json({ error: 'Chapter not found' }, 404);
+    }
+
+    const [columns, params] = patchColumns(body, CHAPTER_FIELDS);
+    if (columns.length === 0) {
+      return c.json({ error: 'Nothing to update' }, 400);
+    }
+
+    await db.prepare(`UPDATE chapters SET ${columns.join(', ')} WHERE id = ?`).bind(...params, found.chapter.id).run();
+
+    const chapter = await db.prepare('SELECT * FROM chapters WHERE id = ?').bind(found.chapter.id).first<ChapterRow>();
+    return c.json({ chapter: toStudioChapter({ ...chapter!, message_count: await messageCount(db, found.chapter.id) }) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to update chapter' }, 500);
+  }
+});
+
+// DELETE /api/studio/chapters/:id - Remove a chapter from a draft story; later chapters move up
+studio.delete('/chapters/:id', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const found = await findChapter(c, c.req.param('id'));
+    if (!found) {
+      return c.json({ error: 'Chapter not found' }, 404);
+    }
+    if (found.story.status !== 'DRAFT') {
+      return c.json({ error: 'Chapters can only be deleted while the story is a draft' }, 409);
+    }
+    if (await hasReaders(db, 'chapter_id', found.chapter.id)) {
+      return c.json({ error: 'Readers have unlocked this chapter' }, 409);
+    }
+
+    const { chapter } = found;
+    await db.batch([
+      db.prepare('DELETE FROM messages WHERE chapter_id = ?').bind(chapter.id),
+      db.prepare('DELETE FROM chapters WHERE id = ?').bind(chapter.id),
+      ...shiftChaptersStatements(db, chapter.story_id, chapter.chapter_number + 1, -1),
+      totalChaptersStatement(db, chapter.story_id),
+    ]);
+
+    return c.json({ success: true, id: chapter.id });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to delete chapter' }, 500);
+  }
+});
+
+// GET /api/studio/chapters/:id/messages - Messages in sequence order, with raw media keys
+studio.get('/chapters/:id/messages', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const found = await findChapter(c, c.req.param('id'));
+    if (!found) {
+      return c.json({ error: 'Chapter not found' }, 404);
+    }
+
+    const messages = await db.prepare('SELECT * FROM messages WHERE chapter_id = ? ORDER BY sequence_index')
+      .bind(found.chapter.id).all<MessageRow>();
+
+    return c.json({
+      chapter: toStudioChapter({ ...found.chapter, message_count: messages.results?.length ?? 0 }),
+      messages: (messages.results || []).map(toStudioMessage)
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch messages' }, 500);
+  }
+});
+
+// POST /api/studio/chapters/:id/messages - Add a message (appended, or inserted at sequenceIndex)
+studio.post('/chapters/:id/messages', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<Record<string, any>>();
+    const invalid = messageError(body) ?? (!body.senderType ? 'senderType is required' : !body.content ? 'content is required' : null);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const found = await findChapter(c, c.req.param('id'));
+    if (!found) {
+      return c.json({ error: 'Chapter not found' }, 404);
+    }
+    if (!await characterInStory(db, body.characterId, found.story.id)) {
+      return c.json({ error: 'characterId must be a character in this story' }, 400);
+    }
+
+    const count = await messageCount(db, found.chapter.id);
+    const sequenceIndex = body.sequenceIndex ?? count + 1;
+    if (!Number.isInteger(sequenceIndex) || sequenceIndex < 1 || sequenceIndex > count + 1) {
+      return c.json({ error: `sequenceIndex must be between 1 and ${count + 1} so the sequence has no gaps` }, 400);
+    }
+
+    const id = `msg_${generateId()}`;
+    await db.batch([
+      shiftMessagesStatement(db, found.chapter.id, sequenceIndex, 1),
+      db.prepare(`
+        INSERT INTO messages (id, chapter_id, sequence_index, sender_type, character_id, content, media_key, media_type, delay_seconds, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      `).bind(
+        id, found.chapter.id, sequenceIndex, body.senderType, body.characterId ?? null, body.content,
+        body.mediaKey ?? null, body.mediaKey ? body.mediaType ?? 'image' : null, body.delaySeconds ?? 2
+      ),
+    ]);
+
+    const message = await db.prepare('SELECT * FROM messages WHERE id = ?').bind(id).first<MessageRow>();
+    return c.json({ message: toStudioMessage(message!) }, 201);
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to create message' }, 500);
+  }
+});
+
+// PUT /api/studio/chapters/:id/messages/order - Reorder every message in the chapter at once
+studio.put('/chapters/:id/messages/order', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const { messageIds } = await c.req.json<{ messageIds: string[] }>();
+    if (!Array.isArray(messageIds) || messageIds.length === 0) {
+      return c.json({ error: 'messageIds must list every message in the chapter' }, 400);
+    }
+
+    const found = await findChapter(c, c.req.param('id'));
+    if (!found) {
+      return c.json({ error: 'Chapter not found' }, 404);
+    }
+
+    const existing = await db.prepare('SELECT id FROM messages WHERE chapter_id = ?').bind(found.chapter.id).all<{ id: string }>();
+    const ids = new Set((existing.results || []).map(m => m.id));
+    if (new Set(messageIds).size !== messageIds.length || messageIds.length !== ids.size || !messageIds.every(id => ids.has(id))) {
+      return c.json({ error: 'messageIds must list every message in the chapter exactly once' }, 400);
+    }
+
+    await db.batch(messageIds.map((id, i) =>
+      db.prepare('UPDATE messages SET sequence_index = ? WHERE id = ? AND chapter_id = ?').bind(i + 1, id, found.chapter.id)
+    ));
+
+    const messages = await db.prepare('SELECT * FROM messages WHERE chapter_id = ? ORDER BY sequence_index')
+      .bind(found.chapter.id).all<MessageRow>();
+    return c.json({ messages: (messages.results || []).map(toStudioMessage) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to reorder messages' }, 500);
+  }
+});
+
+// PATCH /api/studio/messages/:id - Edit a message (position changes go through /messages/order)
+studio.patch('/messages/:id', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const body = await c.req.json<Record<string, any>>();
+    const invalid = messageError(body);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const found = await findMessage(c, c.req.param('id'));
+    if (!found) {
+      return c.json({ error: 'Message not found' }, 404);
+    }
+    if ('characterId' in body && !await characterInStory(db, body.characterId, found.story.id)) {
+      return c.json({ error: 'characterId must be a character in this story' }, 400);
+    }
+
+    const [columns, params] = patchColumns(body, MESSAGE_FIELDS);
+    if (columns.length === 0) {
+      return c.json({ error: 'Nothing to update' }, 400);
+    }
+
+    await db.prepare(`UPDATE messages SET ${columns.join(', ')} WHERE id = ?`).bind(...params, found.message.id).run();
+
+    const message = await db.prepare('SELECT * FROM messages WHERE id = ?').bind(found.message.id).first<MessageRow>();
+    return c.json({ message: toStudioMessage(message!) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to update message' }, 500);
+  }
+});
+
+// DELETE /api/studio/messages/:id - Remove a message; later messages move up
+studio.delete('/messages/:id', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const found = await findMessage(c, c.req.param('id'));
+    if (!found) {
+      return c.json({ error: 'Message not found' }, 404);
+    }
+
+    const { message } = found;
+    await db.batch([
+      db.prepare('DELETE FROM messages WHERE id = ?').bind(message.id),
+      shiftMessagesStatement(db, message.chapter_id, message.sequence_index + 1, -1),
+    ]);
+
+    return c.json({ success: true, id: message.id });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to delete message' }, 500);
+  }
+});
+
+// POST /api/studio/media - Upload an image (multipart: file, blurhash, target? = cover|avatar|message, targetId?)
+studio.post('/media', async (c) => {
+  const db = c.env.DB;
+
+  try {
+    const form = await c.req.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!form || !(file instanceof File)) {
+      return c.json({ error: 'Send the image as multipart/form-data in a "file" field' }, 400);
+    }
+    if (!(file.type in UPLOAD_TYPES)) {
+      return c.json({ error: `Unsupported file type; use one of: ${Object.keys(UPLOAD_TYPES).join(', ')}` }, 415);
+    }
+    if (file.size === 0) {
+      return c.json({ error: 'File is empty' }, 400);
+    }
+    if (file.size > maxUploadBytes(c.env)) {
+      return c.json({ error: `File is larger than ${maxUploadBytes(c.env)} bytes` }, 413);
+    }
+
+    // Computed by the uploader: Workers can't decode images to build the placeholder
+    const blurhash = form.get('blurhash');
+    if (typeof blurhash !== 'string' || !isValidBlurhash(blurhash)) {
+      return c.json({ error: 'blurhash is required: encode the image with blurhash before uploading' }, 400);
+    }
+
+    const target = form.get('target');
+    const targetId = form.get('targetId');
+    if (target !== null && (typeof target !== 'string' || !UPLOAD_TARGETS.includes(target))) {
+      return c.json({ error: `target must be one of: ${UPLOAD_TARGETS.join(', ')}` }, 400);
+    }
+    if (target !== null && typeof targetId !== 'string') {
+      return c.json({ error: 'targetId is required with target' }, 400);
+    }
+
+    // Resolve the row before storing anything, so a bad target doesn't leave an upload behind
+    let link: D1PreparedStatement | null = null;
+    if (target === 'cover') {
+      const story = await findStory(c, targetId as string);
+      if (!story) return c.json({ error: 'Story not found' }, 404);
+      link = db.prepare(`UPDATE stories SET cover_image_key = ?, updated_at = datetime('now') WHERE id = ?`);
+    } else if (target === 'avatar') {
+      if (!await findCharacter(c, targetId as string)) return c.json({ error: 'Character not found' }, 404);
+      link = db.prepare('UPDATE characters SET avatar_key = ? WHERE id = ?');
+    } else if (target === 'message') {
+      if (!await findMessage(c, targetId as string)) return c.json({ error: 'Message not found' }, 404);
+      link = db.prepare(`UPDATE messages SET media_key = ?, media_type = 'image' WHERE id = ?`);
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (sniffImageType(bytes) !== file.type) {
+      return c.json({ error: `File contents are not a valid ${file.type} image` }, 415);
+    }
+
+    const media = await storeUpload(c.env, {
+      userId: c.get('userId'),
+      bytes,
+      contentType: file.type,
+      blurhash,
+    });
+
+    if (link) {
+      await link.bind(media.key, targetId).run();
+    }
+
+    return c.json({
+      media: { ...media, url: mediaUrl(new URL(c.req.url).origin, media.key) },
+      linked: link ? { target, id: targetId } : null
+    }, 201);
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to upload media' }, 500);
+  }
+});
+
+export default studio;
+export { studio };
@@ -0,0 +1,50 @@
+/**
+ * Subscription Routes - Hono Router
+ * Endpoints: GET /api/subscription (current subscription, null if never subscribed),
+ *   POST /api/subscription/cancel (stop renewal, premium stays until the period ends),
+ *   POST /api/subscription/resume (turn renewal back on before the period ends)
+ * Subscriptions are granted and extended through POST /api/admin/users/:id/subscription
+ */
+import { Hono } from 'hono';
+import { getSubscription, setRenewal, toSubscription } from '../lib/subscriptions';
+import { requireAuth } from '../middleware/auth';
+import type { Env } from '../index';
+
+const subscription = new Hono<{ Bindings: Env }>();
+
+// GET /api/subscription - Current subscription and renewal status
+subscription.get('/', requireAuth, async (c) => {
+  try {
+    const current = await getSubscription(c.env.DB, c.get('userId'));
+    return c.json({ subscription: current ? toSubscription(current) : null });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to fetch subscription' }, 500);
+  }
+});
+
+// POST /api/subscription/cancel - Stop renewing; premium access runs until the current period ends
+subscription.post('/cancel', requireAuth, async (c) => {
+  try {
+    const current = await getSubscription(c.env.DB, c.get('userId'));
+    if (!current || current.status === 'LAPSED') return c.json({ error: 'No active subscription' }, 404);
+    const updated = await setRenewal(c.env.DB, c.get('userId'), false);
+    return c.json({ success: true, subscription: toSubscription(updated!) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to cancel subscription' }, 500);
+  }
+});
+
+// POST /api/subscription/resume - Undo a cancellation while the period is still running
+subscription.post('/resume', requireAuth, async (c) => {
+  try {
+    const current = await getSubscription(c.env.DB, c.get('userId'));
+    if (!current || current.status === 'LAPSED') return c.json({ error: 'No active subscription' }, 404);
+    const updated = await setRenewal(c.env.DB, c.get('userId'), true);
+    return c.json({ success: true, subscription: toSubscription(updated!) });
+  } catch (error: any) {
+    return c.json({ error: error.message || 'Failed to resume subscription' }, 500);
+  }
+});
+
+export default subscription;
+export { subscription };
@@ -0,0 +1,28 @@
+/**
+ * Scheduled jobs - Cloudflare Cron Triggers
+ * Each cron expression in wrangler.toml [triggers] maps to the jobs it runs.
+ */
+import type { Env } from './index';
+import { expireCredits } from './lib/expiry';
+import { reconcileBalances } from './lib/reconcile';
+import { processSubscriptions } from './lib/subscriptions';
+import { collectUnreferencedMedia } from './lib/uploads';
+
+type ScheduledJob = (env: Env) => Promise<unknown>;
+
+export const SCHEDULED_JOBS: Record<string, ScheduledJob[]> = {
+  '0 * * * *': [expireCredits, processSubscriptions], // hourly
+  '0 3 * * *': [reconcileBalances, collectUnreferencedMedia], // daily, 03:00 UTC
+};
+
+export async function runScheduled(controller: ScheduledController, env: Env): Promise<void> {
+  const jobs = SCHEDULED_JOBS[controller.cron] ?? [];
+  for (const job of jobs) {
+    try {
+      await job(env);
+    } catch (error) {
+      // Keep going so one failing job doesn't skip the rest
+      console.error(`[Scheduled] ${job.name} failed:`, error);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getBalance, ledgerSyncStatements, newTransactionId } from '../src/lib/ledger';
+import { signAccessToken } from '../src/lib/jwt';
+import { createSession } from '../src/lib/sessions';
+import admin from '../src/routes/admin';
+import type { Env } from '../src/index';
+import { createTestDatabase } from './d1';
+import { createTestKV } from './kv';
+
+const ADMIN_ID = 'user_admin';
+const USER_ID = 'user_reader';
+
+let db: D1Database;
+let env: Env;
+let token: string;
+
+beforeEach(async () => {
+  db = await createTestDatabase();
+  env = { DB: db, SESSIONS: createTestKV(), RATELIMIT: createTestKV(), JWT_SECRET: 'test_jwt_secret_with_enough_length' } as unknown as Env;
+
+  const transactionId = newTransactionId();
+  await db.batch([
+    db.prepare(`INSERT INTO users (id, email, auth_provider, is_admin) VALUES (?, 'admin@example.com', 'email', 1)`).bind(ADMIN_ID),
+    db.prepare(`INSERT INTO users (id, email, auth_provider) VALUES (?, 'reader@example.com', 'email')`).bind(USER_ID),
+    db.prepare(`
+      INSERT INTO credit_transactions (transaction_id, user_id, transaction_type, credits_amount, balance_after, idempotency_key, created_at)
+      VALUES (?, ?, 'PURCHASE', 50, 50, 'seed', datetime('now'))
+    `).bind(transactionId, USER_ID),
+    ...ledgerSyncStatements(db, transactionId),
+  ]);
+
+  await createSession(env.SESSIONS, 'session_admin', ADMIN_ID, { userAgent: null, ip: null });
+  token = await signAccessToken(env, { userId: ADMIN_ID, email: 'admin@example.com', isAdmin: true, sessionId: 'session_admin' });
+});
+
+function deduct(amount: number): Promise<Response> {
+  return admin.request('/credits/deduct', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId: USER_ID, amount, reason: 'Test' }),
+  }, env);
+}
+
+describe('POST /api/admin/credits/deduct', () => {
+  it('lets only one of two concurrent deducts through when the balance covers one', async () => {
+    const responses = await Promise.all([deduct(30), deduct(30)]);
+
+    expect(responses.map(r => r.status).sort()).toEqual([200, 400]);
+    expect(await getBalance(db, USER_ID)).toBe(20);
+
+    const audit = await db.prepare(`SELECT before_state, after_state FROM admin_audit_log WHERE action = 'credits.deduct'`)
+      .all<{ before_state: string; after_state: string }>();
+    expect(audit.results.map(a => [JSON.parse(a.before_state), JSON.parse(a.after_state)])).toEqual([[{ balance: 50 }, { balance: 20 }]]);
+  });
+});
@@ -0,0 +1,5 @@
+// Stand-in for the Workers runtime module under Node: only what the api imports from it
+
+export class DurableObject<Env = unknown> {
+  constructor(protected ctx: DurableObjectState, protected env: Env) {}
+}
@@ -0,0 +1,110 @@
+// The chapter payload checked against the web reader's types (web/types/index.ts).
+// The interfaces are read from the source with the TypeScript parser, so a field
+// added, renamed or retyped on either side fails here.
+
+import { readFileSync } from 'node:fs';
+import ts from 'typescript';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { signAccessToken } from '../src/lib/jwt';
+import { createSession } from '../src/lib/sessions';
+import chapters from '../src/routes/chapters';
+import type { Env } from '../src/index';
+import { createTestDatabase } from './d1';
+import { createTestKV } from './kv';
+
+const WEB_TYPES = new URL('../../web/types/index.ts', import.meta.url);
+const USER_ID = 'user_reader';
+
+const source = ts.createSourceFile('index.ts', readFileSync(WEB_TYPES, 'utf8'), ts.ScriptTarget.Latest);
+const interfaces = new Map(
+  source.statements.filter(ts.isInterfaceDeclaration).map(decl => [decl.name.text, decl] as const)
+);
+
+// Problems with `value` against a type from web/types; empty when it conforms
+function checkType(value: unknown, type: ts.TypeNode, path: string): string[] {
+  if (ts.isUnionTypeNode(type)) {
+    const attempts = type.types.map(member => checkType(value, member, path));
+    return attempts.some(problems => problems.length === 0) ? [] : [`${path}: ${JSON.stringify(value)} is not ${type.getText(source)}`];
+  }
+  if (ts.isLiteralTypeNode(type)) {
+    if (type.literal.kind === ts.SyntaxKind.NullKeyword) return value === null ? [] : [`${path}: expected null`];
+    if (ts.isStringLiteral(type.literal)) return value === type.literal.text ? [] : [`${path}: expected '${type.literal.text}'`];
+  }
+  if (ts.isArrayTypeNode(type)) {
+    if (!Array.isArray(value)) return [`${path}: expected an array`];
+    return value.flatMap((item, i) => checkType(item, type.elementType, `${path}[${i}]`));
+  }
+  if (ts.isTypeReferenceNode(type) && interfaces.has(type.typeName.getText(source))) {
+    return checkInterface(value, interfaces.get(type.typeName.getText(source))!, path);
+  }
+  const primitive = { [ts.SyntaxKind.StringKeyword]: 'string', [ts.SyntaxKind.NumberKeyword]: 'number', [ts.SyntaxKind.BooleanKeyword]: 'boolean' }[type.kind as number];
+  if (!primitive) return [`${path}: unsupported type ${type.getText(source)}`];
+  return typeof value === primitive ? [] : [`${path}: expected ${primitive}, got ${JSON.stringify(value)}`];
+}
+
+function checkInterface(value: unknown, decl: ts.InterfaceDeclaration, path: string): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected ${decl.name.text}`];
+  const record = value as Record<string, unknown>;
+  const properties = decl.members.filter(ts.isPropertySignature);
+  const declared = new Set(properties.map(p => p.name.getText(source)));
+
+  const problems = Object.keys(record).filter(key => !declared.has(key)).map(key => `${path}.${key}: not in ${decl.name.text}`);
+  for (const property of properties) {
+    const name = property.name.getText(source);
+    if (record[name] === undefined) {
+      if (!property.questionToken) problems.push(`${path}.${name}: missing from the payload`);
+    } else {
+      problems.push(...checkType(record[name], property.type!, `${path}.${name}`));
+    }
+  }
+  return problems;
+}
+
+let env: Env;
+let token: string;
+
+beforeEach(async () => {
+  const db = await createTestDatabase();
+  env = { DB: db, SESSIONS: createTestKV(), JWT_SECRET: 'test_jwt_secret_with_enough_length' } as unknown as Env;
+
+  await db.batch([
+    db.prepare(`INSERT INTO users (id, email, auth_provider) VALUES (?, 'reader@example.com', 'email')`).bind(USER_ID),
+    db.prepare(`INSERT INTO stories (id, title, author_id, genre, status) VALUES ('story_1', 'The Last Message', ?, 'THRILLER', 'PUBLISHED')`).bind(USER_ID),
+    db.prepare(`INSERT INTO characters (id, story_id, name, color_theme) VALUES ('char_1', 'story_1', 'Mia', '#ff6699')`),
+    db.prepare(`INSERT INTO chapters (id, story_id, chapter_number, title, is_free, published_at) VALUES ('ch_1', 'story_1', 1, 'Gone', 1, datetime('now'))`),
+    db.prepare(`
+      INSERT INTO media_objects (key, content_type, size_bytes, width, height, blurhash, uploaded_by)
+      VALUES ('media/abc.png', 'image/png', 100, 640, 480, 'LEHV6nWB2yk8pyo0adR*.7kCMdnj', ?)
+    `).bind(USER_ID),
+    db.prepare(`INSERT INTO messages (id, chapter_id, sequence_index, sender_type, character_id, content) VALUES ('msg_1', 'ch_1', 1, 'CHARACTER', 'char_1', 'Where are you?')`),
+    db.prepare(`INSERT INTO messages (id, chapter_id, sequence_index, sender_type, content, media_key, media_type) VALUES ('msg_2', 'ch_1', 2, 'NARRATOR', 'A photo arrives.', 'media/abc.png', 'image')`),
+  ]);
+
+  await createSession(env.SESSIONS, 'session_1', USER_ID, { userAgent: null, ip: null });
+  token = await signAccessToken(env, { userId: USER_ID, email: 'reader@example.com', isAdmin: false, sessionId: 'session_1' });
+});
+
+async function request(method: string, path: string, body?: object): Promise<Response> {
+  return chapters.request(path, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body && JSON.stringify(body),
+  }, env);
+}
+
+describe('chapter payload contract (web/types ChapterWithMessages)', () => {
+  it('matches ChapterWithMessages before the reader has any progress', async () => {
+    const response = await request('GET', '/ch_1/messages');
+    expect(response.status).toBe(200);
+
+    const { chapter } = await response.json<{ chapter: unknown }>();
+    expect(checkInterface(chapter, interfaces.get('ChapterWithMessages')!, 'chapter')).toEqual([]);
+  });
+
+  it('matches ChapterWithMessages once progress has been saved', async () => {
+    expect((await request('PUT', '/ch_1/progress', { lastMessageRead: 1 })).status).toBe(200);
+
+    const { chapter } = await (await request('GET', '/ch_1')).json<{ chapter: unknown }>();
+    expect(checkInterface(chapter, interfaces.get('ChapterWithMessages')!, 'chapter')).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+// In-memory D1 stand-in for tests: SQLite (sql.js) with every migration applied
+//
+// Each call yields to the event loop before it touches the database, so requests
+// started together with Promise.all interleave at their awaits the way concurrent
+// Worker requests do. batch() runs as one transaction, as it does on D1.
+
+import { readdirSync, readFileSync } from 'node:fs';
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+
+const MIGRATIONS_DIR = new URL('../../migrations/', import.meta.url);
+
+type Result = { results: Record<string, SqlValue>[]; success: true; meta: { changes: number } };
+
+function tick(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+function toSqlValue(value: unknown): SqlValue {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value as SqlValue;
+}
+
+class TestStatement {
+  constructor(private sqlite: Database, private sql: string, private params: unknown[] = []) {}
+
+  bind(...params: unknown[]): TestStatement {
+    return new TestStatement(this.sqlite, this.sql, params);
+  }
+
+  async first<T>(column?: string): Promise<T | null> {
+    await tick();
+    const row = this.execute().results[0];
+    if (!row) return null;
+    return (column ? row[column] : row) as T;
+  }
+
+  async all(): Promise<Result> {
+    await tick();
+    return this.execute();
+  }
+
+  async run(): Promise<Result> {
+    await tick();
+    return this.execute();
+  }
+
+  execute(): Result {
+    const before = this.totalChanges();
+    const statement = this.sqlite.prepare(this.sql);
+    try {
+      statement.bind(this.params.map(toSqlValue));
+      const results: Record<string, SqlValue>[] = [];
+      while (statement.step()) results.push(statement.getAsObject());
+      return { results, success: true, meta: { changes: this.totalChanges() - before } };
+    } finally {
+      statement.free();
+    }
+  }
+
+  private totalChanges(): number {
+    return this.sqlite.exec('SELECT total_changes()')[0].values[0][0] as number;
+  }
+}
+
+class TestDatabase {
+  constructor(readonly sqlite: Database) {}
+
+  prepare(sql: string): TestStatement {
+    return new TestStatement(this.sqlite, sql);
+  }
+
+  async batch(statements: TestStatement[]): Promise<Result[]> {
+    await tick();
+    this.sqlite.exec('BEGIN');
+    try {
+      const results = statements.map(statement => statement.execute());
+      this.sqlite.exec('COMMIT');
+      return results;
+    } catch (error) {
+      this.sqlite.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+export async function createTestDatabase(): Promise<D1Database> {
+  const SQL = await initSqlJs();
+  const sqlite = new SQL.Database();
+  for (const file of readdirSync(MIGRATIONS_DIR).filter(name => name.endsWith('.sql')).sort()) {
+    sqlite.exec(readFileSync(new URL(file, MIGRATIONS_DIR), 'utf8'));
+  }
+  return new TestDatabase(sqlite) as unknown as D1Database;
+}
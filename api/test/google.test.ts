@@ -0,0 +1,88 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { getBalance } from '../src/lib/ledger';
+import auth from '../src/routes/auth';
+import type { Env } from '../src/index';
+import { createTestDatabase } from './d1';
+import { createTestKV } from './kv';
+
+const CLIENT_ID = 'test-client.apps.googleusercontent.com';
+const GOOGLE_SUB = 'google_sub_1';
+
+let server: Server;
+let tokenUrl: string;
+let exchangedCodes: string[] = [];
+let db: D1Database;
+let env: Env;
+
+function base64Url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// Local stand-in for Google's token endpoint: returns an id_token for whatever code it gets
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      exchangedCodes.push(new URLSearchParams(body).get('code') ?? '');
+      const claims = {
+        iss: 'https://accounts.google.com', aud: CLIENT_ID, sub: GOOGLE_SUB, exp: Math.floor(Date.now() / 1000) + 3600,
+        email: 'reader@example.com', email_verified: true, name: 'Reader',
+      };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ id_token: `${base64Url({ alg: 'RS256' })}.${base64Url(claims)}.sig` }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(async () => {
+  exchangedCodes = [];
+  db = await createTestDatabase();
+  env = {
+    DB: db, SESSIONS: createTestKV(), RATELIMIT: createTestKV(), JWT_SECRET: 'test_jwt_secret_with_enough_length',
+    GOOGLE_CLIENT_ID: CLIENT_ID, GOOGLE_CLIENT_SECRET: 'test-secret', GOOGLE_TOKEN_URL: tokenUrl,
+  } as unknown as Env;
+});
+
+async function signIn(): Promise<{ newUser: boolean; user: { id: string } }> {
+  const response = await auth.request('/google', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code: 'auth-code-1' }),
+  }, env);
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+describe('POST /api/auth/google', () => {
+  it('exchanges the code at GOOGLE_TOKEN_URL and creates the account with the welcome bonus', async () => {
+    const result = await signIn();
+
+    expect(exchangedCodes).toEqual(['auth-code-1']);
+    expect(result.newUser).toBe(true);
+    expect(await getBalance(db, result.user.id)).toBe(50);
+  });
+
+  it('links an existing email account without a second welcome bonus', async () => {
+    await db.prepare(`
+      INSERT INTO users (id, email, auth_provider, password_hash, email_verified_at)
+      VALUES ('user_existing', 'reader@example.com', 'email', 'hash', datetime('now'))
+    `).run();
+
+    const result = await signIn();
+
+    const user = await db.prepare(`SELECT auth_provider, auth_provider_id, password_hash FROM users WHERE id = 'user_existing'`)
+      .first<{ auth_provider: string; auth_provider_id: string; password_hash: string | null }>();
+    expect(result).toMatchObject({ newUser: false, user: { id: 'user_existing' } });
+    expect(user).toEqual({ auth_provider: 'google', auth_provider_id: GOOGLE_SUB, password_hash: 'hash' });
+    expect(await getBalance(db, 'user_existing')).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+// In-memory KV stand-in for tests: get/put/delete/list with metadata, no expiry
+
+type Entry = { value: string; metadata?: unknown };
+
+class TestKV {
+  private entries = new Map<string, Entry>();
+
+  async get(key: string, type?: 'text' | 'json'): Promise<unknown> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    return type === 'json' ? JSON.parse(entry.value) : entry.value;
+  }
+
+  async put(key: string, value: string, options?: { metadata?: unknown }): Promise<void> {
+    this.entries.set(key, { value, metadata: options?.metadata });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(options?: { prefix?: string }) {
+    const keys = [...this.entries.keys()]
+      .filter(name => name.startsWith(options?.prefix ?? ''))
+      .sort()
+      .map(name => ({ name, metadata: this.entries.get(name)!.metadata }));
+    return { keys, list_complete: true, cacheStatus: null };
+  }
+}
+
+export function createTestKV(): KVNamespace {
+  return new TestKV() as unknown as KVNamespace;
+}
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { isProtectedMedia } from '../src/lib/media';
+import { createTestDatabase } from './d1';
+
+const KEY = 'media/abc123.png';
+
+let db: D1Database;
+
+beforeEach(async () => {
+  db = await createTestDatabase();
+  await db.batch([
+    db.prepare(`INSERT INTO stories (id, title, author_id, genre, status) VALUES ('story_1', 'Test', 'user_author', 'DRAMA', 'PUBLISHED')`),
+    db.prepare(`INSERT INTO chapters (id, story_id, chapter_number, is_free, unlock_cost) VALUES ('ch_paid', 'story_1', 2, 0, 10)`),
+    db.prepare(`
+      INSERT INTO messages (id, chapter_id, sequence_index, sender_type, content, media_key)
+      VALUES ('msg_1', 'ch_paid', 1, 'NARRATOR', 'Look', ?)
+    `).bind(KEY),
+  ]);
+});
+
+describe('media protection', () => {
+  it('requires a signature for media used only in paid chapters', async () => {
+    expect(await isProtectedMedia(db, KEY)).toBe(true);
+  });
+
+  it('keeps an image public when it is also a story cover', async () => {
+    await db.prepare(`UPDATE stories SET cover_image_key = ? WHERE id = 'story_1'`).bind(KEY).run();
+    expect(await isProtectedMedia(db, KEY)).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getBalance } from '../src/lib/ledger';
+import { FAKE_SIGNATURE_HEADER, getPaymentProvider, signFakeWebhook } from '../src/lib/payments';
+import payments from '../src/routes/payments';
+import type { Env } from '../src/index';
+import { createTestDatabase } from './d1';
+
+const USER_ID = 'user_reader';
+const SECRET = 'test_webhook_secret';
+
+let db: D1Database;
+let env: Env;
+
+async function deliver(eventId: string): Promise<Response> {
+  const body = JSON.stringify({
+    type: 'payment.succeeded', eventId, purchaseId: 'purchase_1', providerRef: 'fake_cs_purchase_1', amountCents: 99, currency: 'USD',
+  });
+  return payments.request('/webhook', {
+    method: 'POST',
+    headers: { [FAKE_SIGNATURE_HEADER]: await signFakeWebhook(SECRET, body) },
+    body,
+  }, env);
+}
+
+beforeEach(async () => {
+  db = await createTestDatabase();
+  env = { DB: db, PAYMENT_PROVIDER: 'fake', PAYMENT_WEBHOOK_SECRET: SECRET } as unknown as Env;
+  await db.batch([
+    db.prepare(`INSERT INTO users (id, email, auth_provider) VALUES (?, 'reader@example.com', 'email')`).bind(USER_ID),
+    db.prepare(`
+      INSERT INTO credit_purchases (id, user_id, pack_id, credits, price_cents, currency, provider, provider_ref)
+      VALUES ('purchase_1', ?, 'pack_100', 100, 99, 'USD', 'fake', 'fake_cs_purchase_1')
+    `).bind(USER_ID),
+  ]);
+});
+
+describe('payment webhook', () => {
+  it('credits a purchase once across redelivered webhooks', async () => {
+    const [first, second] = await Promise.all([deliver('evt_1'), deliver('evt_2')]);
+    expect([first.status, second.status]).toEqual([200, 200]);
+
+    const purchase = await db.prepare(`SELECT status, transaction_id FROM credit_purchases WHERE id = 'purchase_1'`)
+      .first<{ status: string; transaction_id: string | null }>();
+    const ledger = await db.prepare(`SELECT transaction_id FROM credit_transactions WHERE purchase_id = 'purchase_1'`)
+      .all<{ transaction_id: string }>();
+
+    expect(ledger.results).toHaveLength(1);
+    expect(purchase).toEqual({ status: 'COMPLETED', transaction_id: ledger.results[0].transaction_id });
+    expect(await getBalance(db, USER_ID)).toBe(100);
+  });
+
+  it('refuses to pick a provider when PAYMENT_PROVIDER is unset', () => {
+    expect(() => getPaymentProvider({ PAYMENT_WEBHOOK_SECRET: SECRET } as unknown as Env)).toThrow('PAYMENT_PROVIDER is not configured');
+  });
+});
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { redeemPromoCode } from '../src/lib/promo';
+import { createTestDatabase } from './d1';
+
+const USER_ID = 'user_reader';
+
+let db: D1Database;
+
+async function createCode(code: string, creditsExpireDays: number | null): Promise<void> {
+  await db.prepare(`INSERT INTO promo_codes (id, code, credits, credits_expire_days) VALUES (?, ?, 25, ?)`)
+    .bind(`promo_${code}`, code, creditsExpireDays).run();
+}
+
+async function lotExpiry(transactionId: string): Promise<string | null> {
+  const lot = await db.prepare('SELECT expires_at FROM credit_lots WHERE id = ?').bind(transactionId).first<{ expires_at: string | null }>();
+  return lot!.expires_at;
+}
+
+beforeEach(async () => {
+  db = await createTestDatabase();
+  await db.prepare(`INSERT INTO users (id, email, auth_provider) VALUES (?, 'reader@example.com', 'email')`).bind(USER_ID).run();
+});
+
+describe('promo credit expiry', () => {
+  it('opens an expiring lot when the code sets creditsExpireDays', async () => {
+    await createCode('SPRING30', 30);
+
+    const outcome = await redeemPromoCode(db, { userId: USER_ID, code: 'spring30' });
+    if (outcome.status !== 'redeemed') throw new Error(`expected a redemption, got ${outcome.status}`);
+
+    const expected = await db.prepare(`SELECT datetime('now', '+30 days') AS at`).first<{ at: string }>();
+    expect((await lotExpiry(outcome.transactionId))?.slice(0, 10)).toBe(expected!.at.slice(0, 10));
+  });
+
+  it('leaves the lot without an expiry when the code has none', async () => {
+    await createCode('FOREVER', null);
+
+    const outcome = await redeemPromoCode(db, { userId: USER_ID, code: 'FOREVER' });
+    if (outcome.status !== 'redeemed') throw new Error(`expected a redemption, got ${outcome.status}`);
+
+    expect(await lotExpiry(outcome.transactionId)).toBeNull();
+  });
+});
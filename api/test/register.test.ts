@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setMailTransport } from '../src/lib/mail';
+import auth from '../src/routes/auth';
+import type { Env } from '../src/index';
+import { createTestDatabase } from './d1';
+import { createTestKV } from './kv';
+
+let db: D1Database;
+let env: Env;
+
+beforeEach(async () => {
+  db = await createTestDatabase();
+  env = { DB: db, SESSIONS: createTestKV(), RATELIMIT: createTestKV(), JWT_SECRET: 'test_jwt_secret_with_enough_length' } as unknown as Env;
+  setMailTransport({ send: async () => { throw new Error('Mail API returned 503'); } });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setMailTransport(null);
+  vi.restoreAllMocks();
+});
+
+describe('POST /api/auth/register', () => {
+  it('signs the reader up even when the verification email cannot be sent', async () => {
+    const response = await auth.request('/register', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'reader@example.com', password: 'correct-horse' }),
+    }, env);
+
+    expect(response.status).toBe(200);
+    const { user } = await response.json<{ user: { id: string } }>();
+    expect(await db.prepare('SELECT id FROM users WHERE email = ?').bind('reader@example.com').first()).toEqual({ id: user.id });
+  });
+});
@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { isPremium } from '../src/lib/subscriptions';
+import { createTestDatabase } from './d1';
+
+const USER_ID = 'user_reader';
+
+let db: D1Database;
+
+async function subscribe(periodEnd: string): Promise<void> {
+  await db.prepare(`
+    INSERT INTO subscriptions (id, user_id, tier, status, started_at, current_period_start, current_period_end)
+    VALUES ('sub_1', ?, 'premium', 'ACTIVE', datetime('now', '-1 month'), datetime('now', '-1 month'), datetime('now', ?))
+  `).bind(USER_ID, periodEnd).run();
+}
+
+beforeEach(async () => {
+  db = await createTestDatabase();
+  // The tier stays 'premium' until the hourly job lapses the subscription
+  await db.prepare(`INSERT INTO users (id, email, auth_provider, subscription_tier) VALUES (?, 'reader@example.com', 'email', 'premium')`)
+    .bind(USER_ID).run();
+});
+
+describe('isPremium', () => {
+  it('is true while the paid period runs', async () => {
+    await subscribe('+1 day');
+    expect(await isPremium(db, USER_ID)).toBe(true);
+  });
+
+  it('is false once the period has ended, before the lapse job runs', async () => {
+    await subscribe('-1 minute');
+    expect(await isPremium(db, USER_ID)).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getBalance, ledgerSyncStatements, newTransactionId } from '../src/lib/ledger';
+import { unlockChapter } from '../src/lib/unlock';
+import { createTestDatabase } from './d1';
+
+const USER_ID = 'user_reader';
+const STORY_ID = 'story_test';
+const COST = 10;
+
+let db: D1Database;
+
+async function grantCredits(amount: number): Promise<void> {
+  const transactionId = newTransactionId();
+  await db.batch([
+    db.prepare(`
+      INSERT INTO credit_transactions (transaction_id, user_id, transaction_type, credits_amount, balance_after, idempotency_key, created_at)
+      VALUES (?, ?, 'PURCHASE', ?, ?, ?, datetime('now'))
+    `).bind(transactionId, USER_ID, amount, amount, `seed_${transactionId}`),
+    ...ledgerSyncStatements(db, transactionId),
+  ]);
+}
+
+async function debitCount(): Promise<number> {
+  const row = await db.prepare(`
+    SELECT COUNT(*) AS count FROM credit_transactions WHERE user_id = ? AND transaction_type = 'CONSUMPTION'
+  `).bind(USER_ID).first<{ count: number }>();
+  return row?.count ?? 0;
+}
+
+beforeEach(async () => {
+  db = await createTestDatabase();
+  await db.batch([
+    db.prepare(`INSERT INTO users (id, email, auth_provider) VALUES (?, 'reader@example.com', 'email')`).bind(USER_ID),
+    db.prepare(`INSERT INTO stories (id, title, author_id, genre, status) VALUES (?, 'Test', ?, 'DRAMA', 'PUBLISHED')`).bind(STORY_ID, USER_ID),
+    db.prepare(`INSERT INTO chapters (id, story_id, chapter_number, unlock_cost) VALUES ('ch_1', ?, 1, ?)`).bind(STORY_ID, COST),
+    db.prepare(`INSERT INTO chapters (id, story_id, chapter_number, unlock_cost) VALUES ('ch_2', ?, 2, ?)`).bind(STORY_ID, COST),
+  ]);
+});
+
+describe('concurrent chapter unlocks', () => {
+  it('charges once for two parallel unlocks with the same idempotency key', async () => {
+    await grantCredits(COST * 3);
+
+    const request = { userId: USER_ID, storyId: STORY_ID, chapterId: 'ch_1', cost: COST, idempotencyKey: 'retry-1' };
+    const outcomes = await Promise.all([unlockChapter(db, request), unlockChapter(db, request)]);
+
+    const [first, second] = outcomes;
+    if (first.status !== 'unlocked' || second.status !== 'unlocked') throw new Error(`expected two unlocks, got ${first.status} and ${second.status}`);
+    expect(first.transactionId).toBe(second.transactionId);
+    expect([first.replayed, second.replayed].sort()).toEqual([false, true]);
+    expect(await debitCount()).toBe(1);
+    expect(await getBalance(db, USER_ID)).toBe(COST * 2);
+  });
+
+  it('charges once when two unlocks with different keys race for a balance that covers one', async () => {
+    await grantCredits(COST);
+
+    const outcomes = await Promise.all([
+      unlockChapter(db, { userId: USER_ID, storyId: STORY_ID, chapterId: 'ch_1', cost: COST, idempotencyKey: 'key-a' }),
+      unlockChapter(db, { userId: USER_ID, storyId: STORY_ID, chapterId: 'ch_2', cost: COST, idempotencyKey: 'key-b' }),
+    ]);
+
+    expect(outcomes.map(o => o.status).sort()).toEqual(['insufficient', 'unlocked']);
+    expect(await debitCount()).toBe(1);
+    expect(await getBalance(db, USER_ID)).toBe(0);
+  });
+});
@@ -29,6 +29,10 @@ VALUES (
   datetime('now')
 );
 
+-- Premium access comes from a live subscription, not subscription_tier alone
+INSERT INTO subscriptions (id, user_id, tier, status, started_at, current_period_start, current_period_end, created_at, updated_at)
+VALUES ('sub_admin_001', 'admin_user_001', 'premium', 'ACTIVE', datetime('now'), datetime('now'), datetime('now', '+12 months'), datetime('now'), datetime('now'));
+
 -- Another demo user with Google OAuth
 INSERT INTO users (id, email, display_name, auth_provider, auth_provider_id, subscription_tier, is_admin, created_at, last_login_at)
 VALUES (
@@ -4,7 +4,7 @@
  * Features:
  * - Double-spend prevention via idempotency keys
  * - ACID-compliant transactions on D1
- * - Balance calculation from immutable log
+ * - Balance calculation from immutable log (materialized in user_balances)
  * - Audit trail for all operations
  * 
  * Usage:
@@ -22,6 +22,7 @@
  */
 
 import { nanoid } from 'nanoid';
+import { BALANCE_SQL, ledgerSyncStatements } from '../../../api/src/lib/ledger';
 
 // Transaction types
 export type TransactionType = 
@@ -31,7 +32,9 @@ export type TransactionType =
   | 'ADMIN_ADD'
   | 'ADMIN_REMOVE'
   | 'BONUS'
-  | 'PROMO';
+  | 'PROMO'
+  | 'CHARGEBACK'
+  | 'EXPIRE';
 
 export interface CreditTransaction {
   transactionId: string;
@@ -68,6 +71,7 @@ export interface AddCreditsInput {
   amountPaid?: number;
   metadata?: Record<string, any>;
   idempotencyKey?: string;
+  expiresAt?: string; // 'YYYY-MM-DD HH:MM:SS' UTC; omit for credits that never expire
 }
 
 export interface TransactionResult {
@@ -82,10 +86,7 @@ export class CreditManager {
 
   async getBalance(userId: string): Promise<number> {
     const result = await this.db.prepare(
-      `SELECT COALESCE(SUM(
-        CASE WHEN transaction_type IN ('PURCHASE', 'REFUND', 'ADMIN_ADD', 'BONUS', 'PROMO') 
-        THEN credits_amount ELSE -credits_amount END), 0) as balance
-      FROM credit_transactions WHERE user_id = ?`
+      `SELECT (${BALANCE_SQL}) as balance`
     ).bind(userId).first<{ balance: number }>();
     return result?.balance ?? 0;
   }
@@ -116,14 +117,7 @@ export class CreditManager {
     
     try {
       // Get current balance
-      const balanceResult = await this.db.prepare(
-        `SELECT COALESCE(SUM(
-          CASE WHEN transaction_type IN ('PURCHASE', 'REFUND', 'ADMIN_ADD', 'BONUS', 'PROMO') 
-          THEN credits_amount ELSE -credits_amount END), 0) as balance
-        FROM credit_transactions WHERE user_id = ?`
-      ).bind(userId).first<{ balance: number }>();
-      
-      const currentBalance = balanceResult?.balance ?? 0;
+      const currentBalance = await this.getBalance(userId);
       
       if (currentBalance < amount) {
         return { success: false, newBalance: currentBalance, error: 'Insufficient credits' };
@@ -131,16 +125,19 @@ export class CreditManager {
       
       const newBalance = currentBalance - amount;
       
-      await this.db.prepare(
-        `INSERT INTO credit_transactions 
-          (transaction_id, user_id, transaction_type, credits_amount, balance_after,
-           story_id, chapter_id, message_id, idempotency_key, metadata, created_at)
-         VALUES (?, ?, 'CONSUMPTION', ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
-      ).bind(
-        transactionId, userId, amount, newBalance, storyId,
-        chapterId ?? null, messageId ?? null, idempotencyKey,
-        metadata ? JSON.stringify(metadata) : null
-      ).run();
+      await this.db.batch([
+        this.db.prepare(
+          `INSERT INTO credit_transactions 
+            (transaction_id, user_id, transaction_type, credits_amount, balance_after,
+             story_id, chapter_id, message_id, idempotency_key, metadata, created_at)
+           VALUES (?, ?, 'CONSUMPTION', ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+        ).bind(
+          transactionId, userId, amount, newBalance, storyId,
+          chapterId ?? null, messageId ?? null, idempotencyKey,
+          metadata ? JSON.stringify(metadata) : null
+        ),
+        ...ledgerSyncStatements(this.db, transactionId),
+      ]);
       
       return { success: true, transactionId, newBalance };
       
@@ -158,7 +155,7 @@ export class CreditManager {
   }
 
   async addCredits(input: AddCreditsInput): Promise<TransactionResult> {
-    const { userId, amount, transactionType, purchaseId, adminUserId, reason, currency, amountPaid, metadata, idempotencyKey } = input;
+    const { userId, amount, transactionType, purchaseId, adminUserId, reason, currency, amountPaid, metadata, idempotencyKey, expiresAt } = input;
     
     if (amount <= 0) {
       return { success: false, newBalance: 0, error: 'Amount must be positive' };
@@ -168,28 +165,24 @@ export class CreditManager {
     const usedIdempotencyKey = idempotencyKey ?? `${transactionType}_${nanoid(8)}`;
     
     try {
-      const balanceResult = await this.db.prepare(
-        `SELECT COALESCE(SUM(
-          CASE WHEN transaction_type IN ('PURCHASE', 'REFUND', 'ADMIN_ADD', 'BONUS', 'PROMO') 
-          THEN credits_amount ELSE -credits_amount END), 0) as balance
-        FROM credit_transactions WHERE user_id = ?`
-      ).bind(userId).first<{ balance: number }>();
-      
-      const currentBalance = balanceResult?.balance ?? 0;
+      const currentBalance = await this.getBalance(userId);
       const newBalance = currentBalance + amount;
       
-      await this.db.prepare(
-        `INSERT INTO credit_transactions 
-          (transaction_id, user_id, transaction_type, credits_amount, balance_after,
-           purchase_id, admin_user_id, reason, currency, amount_paid,
-           idempotency_key, metadata, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
-      ).bind(
-        transactionId, userId, transactionType, amount, newBalance,
-        purchaseId ?? null, adminUserId ?? null, reason ?? null,
-        currency ?? null, amountPaid ?? null, usedIdempotencyKey,
-        metadata ? JSON.stringify(metadata) : null
-      ).run();
+      await this.db.batch([
+        this.db.prepare(
+          `INSERT INTO credit_transactions 
+            (transaction_id, user_id, transaction_type, credits_amount, balance_after,
+             purchase_id, admin_user_id, reason, currency, amount_paid,
+             idempotency_key, metadata, expires_at, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+        ).bind(
+          transactionId, userId, transactionType, amount, newBalance,
+          purchaseId ?? null, adminUserId ?? null, reason ?? null,
+          currency ?? null, amountPaid ?? null, usedIdempotencyKey,
+          metadata ? JSON.stringify(metadata) : null, expiresAt ?? null
+        ),
+        ...ledgerSyncStatements(this.db, transactionId),
+      ]);
       
       return { success: true, transactionId, newBalance };
       
@@ -225,13 +218,3 @@ export class CreditManager {
     return result?.exists === 1;
   }
 }
-
-type D1Database = {
-  prepare: (query: string) => {
-    bind: (...values: unknown[]) => {
-      first: <T>() => Promise<T | null>;
-      all: <T>() => Promise<{ results?: T[] }>;
-      run: () => Promise<{ success: boolean }>;
-    };
-  };
-};
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- StoryChat D1 Migration - Email verification
+-- NULL until the reader confirms their address (Google sign-ins are verified by Google)
+
+ALTER TABLE users ADD COLUMN email_verified_at DATETIME;
+
+-- Accounts that already exist predate verification; treat them as verified
+UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
@@ -0,0 +1,7 @@
+-- StoryChat D1 Migration - Account suspension
+-- Suspended readers can't log in and are rejected by the auth middleware
+
+ALTER TABLE users ADD COLUMN suspended_at DATETIME;
+ALTER TABLE users ADD COLUMN suspended_reason TEXT;
+
+CREATE INDEX idx_users_suspended ON users(suspended_at);
@@ -0,0 +1,35 @@
+-- StoryChat D1 Migration - Admin audit log
+-- One row per privileged admin action. Append-only: triggers reject UPDATE and DELETE.
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  actor_user_id TEXT NOT NULL,
+  action TEXT NOT NULL, -- 'credits.add', 'credits.deduct', 'user.update', 'user.suspend', 'user.unsuspend', 'auth.unlock'
+  target_type TEXT NOT NULL, -- 'user', 'login'
+  target_id TEXT,
+  reason TEXT,
+  before_state TEXT, -- JSON snapshot before the change
+  after_state TEXT, -- JSON snapshot after the change
+  metadata TEXT, -- JSON (transaction ids, etc.)
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (actor_user_id) REFERENCES users(id)
+);
+
+CREATE INDEX idx_audit_actor ON admin_audit_log(actor_user_id, created_at);
+CREATE INDEX idx_audit_target ON admin_audit_log(target_type, target_id, created_at);
+CREATE INDEX idx_audit_action ON admin_audit_log(action, created_at);
+CREATE INDEX idx_audit_created ON admin_audit_log(created_at);
+
+CREATE TRIGGER IF NOT EXISTS admin_audit_log_no_update
+BEFORE UPDATE ON admin_audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'admin_audit_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS admin_audit_log_no_delete
+BEFORE DELETE ON admin_audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'admin_audit_log is append-only');
+END;
@@ -0,0 +1,11 @@
+-- StoryChat D1 Migration - Unique ledger idempotency keys
+-- A retried credit operation can't write a second ledger row for the same key
+
+-- Earlier code reused keys (admin_<timestamp>, retried client unlock keys). The oldest row
+-- keeps its key and later duplicates get a suffix so the unique index can be built.
+UPDATE credit_transactions
+SET idempotency_key = idempotency_key || '_dup_' || id
+WHERE id NOT IN (SELECT MIN(id) FROM credit_transactions GROUP BY idempotency_key);
+
+DROP INDEX IF EXISTS idx_transactions_idempotency;
+CREATE UNIQUE INDEX idx_transactions_idempotency ON credit_transactions(idempotency_key);
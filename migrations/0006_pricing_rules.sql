@@ -0,0 +1,18 @@
+-- StoryChat D1 Migration - Pricing rules
+-- Story-wide chapter price overrides and time-limited sales, applied on top of chapters.unlock_cost
+
+ALTER TABLE stories ADD COLUMN chapter_unlock_cost INTEGER; -- NULL = use each chapter's unlock_cost
+
+CREATE TABLE IF NOT EXISTS pricing_sales (
+  id TEXT PRIMARY KEY,
+  story_id TEXT, -- NULL = storewide
+  discount_percent INTEGER NOT NULL CHECK (discount_percent BETWEEN 1 AND 100),
+  starts_at DATETIME NOT NULL,
+  ends_at DATETIME NOT NULL,
+  label TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (story_id) REFERENCES stories(id) ON DELETE CASCADE,
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_pricing_sales_story ON pricing_sales(story_id, ends_at);
@@ -0,0 +1,4 @@
+-- StoryChat D1 Migration - Story bundles
+-- Per-story discount for unlocking every remaining chapter at once
+
+ALTER TABLE stories ADD COLUMN bundle_discount_percent INTEGER; -- NULL = DEFAULT_BUNDLE_DISCOUNT_PERCENT
@@ -0,0 +1,39 @@
+-- StoryChat D1 Migration - Credit packs and purchases
+-- Catalog of purchasable packs, and one row per checkout settled by the payment webhook
+
+CREATE TABLE IF NOT EXISTS credit_packs (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  credits INTEGER NOT NULL CHECK (credits > 0),
+  price_cents INTEGER NOT NULL CHECK (price_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  is_popular BOOLEAN DEFAULT FALSE,
+  is_active BOOLEAN DEFAULT TRUE,
+  sort_order INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS credit_purchases (
+  id TEXT PRIMARY KEY, -- purchase_id on the PURCHASE ledger row
+  user_id TEXT NOT NULL,
+  pack_id TEXT NOT NULL,
+  credits INTEGER NOT NULL,
+  price_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL,
+  provider TEXT NOT NULL, -- 'fake', ...
+  provider_ref TEXT, -- provider checkout/session id
+  status TEXT NOT NULL DEFAULT 'PENDING', -- 'PENDING', 'COMPLETED', 'FAILED'
+  transaction_id TEXT, -- credit_transactions.transaction_id once settled
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  completed_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (pack_id) REFERENCES credit_packs(id)
+);
+
+CREATE INDEX idx_credit_purchases_user ON credit_purchases(user_id, created_at);
+CREATE UNIQUE INDEX idx_credit_purchases_provider_ref ON credit_purchases(provider, provider_ref);
+
+INSERT INTO credit_packs (id, name, credits, price_cents, currency, is_popular, sort_order) VALUES
+  ('pack_100', '100 Credits', 100, 99, 'USD', FALSE, 1),
+  ('pack_500', '500 Credits', 500, 449, 'USD', TRUE, 2),
+  ('pack_1000', '1000 Credits', 1000, 899, 'USD', FALSE, 3);
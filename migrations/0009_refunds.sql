@@ -0,0 +1,9 @@
+-- StoryChat D1 Migration - Refunds and chargebacks
+-- REFUND (credit back a CONSUMPTION) and CHARGEBACK (claw back a PURCHASE) rows point at the
+-- transaction they reverse; the unique index stops a transaction being reversed twice.
+-- Charged-back purchases move to credit_purchases.status = 'REFUNDED'.
+
+ALTER TABLE credit_transactions ADD COLUMN refunded_transaction_id TEXT REFERENCES credit_transactions(transaction_id);
+
+CREATE UNIQUE INDEX idx_transactions_refunded ON credit_transactions(refunded_transaction_id)
+  WHERE refunded_transaction_id IS NOT NULL;
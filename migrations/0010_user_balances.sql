@@ -0,0 +1,34 @@
+-- StoryChat D1 Migration - Materialized balances
+-- user_balances is updated in the same batch as every credit_transactions insert, so balance
+-- reads don't scan the ledger. The reconciliation cron recomputes it from the ledger and
+-- records any drift in balance_drift_reports.
+
+CREATE TABLE IF NOT EXISTS user_balances (
+  user_id TEXT PRIMARY KEY,
+  balance INTEGER NOT NULL DEFAULT 0,
+  last_transaction_id TEXT,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+INSERT INTO user_balances (user_id, balance, updated_at)
+SELECT user_id,
+       SUM(CASE WHEN transaction_type IN ('PURCHASE', 'REFUND', 'ADMIN_ADD', 'BONUS', 'PROMO') THEN credits_amount
+                ELSE -credits_amount END),
+       datetime('now')
+FROM credit_transactions
+GROUP BY user_id;
+
+CREATE TABLE IF NOT EXISTS balance_drift_reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  materialized_balance INTEGER, -- NULL when the user_balances row was missing
+  ledger_balance INTEGER NOT NULL,
+  drift INTEGER NOT NULL, -- materialized - ledger
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX idx_balance_drift_run ON balance_drift_reports(run_id);
+CREATE INDEX idx_balance_drift_created ON balance_drift_reports(created_at);
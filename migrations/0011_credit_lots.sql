@@ -0,0 +1,25 @@
+-- StoryChat D1 Migration - Credit lots and expiry
+-- Each incoming ledger row opens a lot (optionally expiring); spends drain the soonest-expiring
+-- lots first, and the expiry job writes an EXPIRE ledger row for whatever a lapsed lot has left.
+
+ALTER TABLE credit_transactions ADD COLUMN expires_at DATETIME; -- incoming rows only; NULL = never
+
+CREATE TABLE IF NOT EXISTS credit_lots (
+  id TEXT PRIMARY KEY, -- transaction_id of the incoming row ('opening_<user_id>' for backfilled balances)
+  user_id TEXT NOT NULL,
+  source_type TEXT NOT NULL, -- transaction_type of the incoming row, 'OPENING' for backfill
+  amount INTEGER NOT NULL,
+  remaining INTEGER NOT NULL,
+  expires_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_credit_lots_user ON credit_lots(user_id, remaining);
+CREATE INDEX idx_credit_lots_expiry ON credit_lots(expires_at) WHERE remaining > 0;
+
+-- Existing balances carry over as one non-expiring lot per user
+INSERT INTO credit_lots (id, user_id, source_type, amount, remaining, expires_at, created_at)
+SELECT 'opening_' || user_id, user_id, 'OPENING', balance, balance, NULL, datetime('now')
+FROM user_balances
+WHERE balance > 0;
@@ -0,0 +1,36 @@
+-- StoryChat D1 Migration - Promo codes
+-- Admin-created codes that readers redeem for PROMO credits. Each redemption writes one
+-- PROMO ledger row and one promo_redemptions row in the same batch.
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id TEXT PRIMARY KEY,
+  code TEXT UNIQUE NOT NULL, -- stored uppercase; redemption is case-insensitive
+  credits INTEGER NOT NULL,
+  credits_expire_days INTEGER, -- redeemed credits expire this many days later (credit_lots); NULL = never
+  max_redemptions INTEGER, -- across all users; NULL = unlimited
+  per_user_limit INTEGER NOT NULL DEFAULT 1,
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  starts_at DATETIME, -- NULL = valid immediately
+  ends_at DATETIME, -- NULL = no end date
+  story_id TEXT, -- only redeemable from this story when set
+  description TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  deactivated_at DATETIME,
+  FOREIGN KEY (story_id) REFERENCES stories(id) ON DELETE SET NULL,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id TEXT PRIMARY KEY,
+  promo_code_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  transaction_id TEXT UNIQUE NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (promo_code_id) REFERENCES promo_codes(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_promo_redemptions_code_user ON promo_redemptions(promo_code_id, user_id);
+CREATE INDEX idx_promo_redemptions_user ON promo_redemptions(user_id, created_at);
@@ -0,0 +1,25 @@
+-- StoryChat D1 Migration - Premium subscriptions
+-- One current subscription per user; users.subscription_tier mirrors whether it is live.
+-- Chapters read through the subscription are recorded as zero-cost user_chapters grants
+-- (unlock_source = 'subscription') and are locked again when the subscription lapses.
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT UNIQUE NOT NULL,
+  tier TEXT NOT NULL DEFAULT 'premium',
+  status TEXT NOT NULL DEFAULT 'ACTIVE', -- 'ACTIVE' (renews), 'CANCELLED' (runs to period end), 'LAPSED'
+  started_at DATETIME NOT NULL,
+  current_period_start DATETIME NOT NULL,
+  current_period_end DATETIME NOT NULL,
+  monthly_stipend INTEGER NOT NULL DEFAULT 0, -- BONUS credits granted each month while live
+  last_stipend_at DATETIME,
+  cancelled_at DATETIME,
+  lapsed_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_subscriptions_period_end ON subscriptions(current_period_end) WHERE status != 'LAPSED';
+
+ALTER TABLE user_chapters ADD COLUMN unlock_source TEXT NOT NULL DEFAULT 'credits'; -- 'credits', 'subscription'
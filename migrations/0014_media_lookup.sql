@@ -0,0 +1,4 @@
+-- StoryChat D1 Migration - Media lookup
+-- GET /api/media/:key checks whether a key belongs to a paid chapter before serving it unsigned.
+
+CREATE INDEX idx_messages_media_key ON messages(media_key) WHERE media_key IS NOT NULL;
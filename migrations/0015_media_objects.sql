@@ -0,0 +1,22 @@
+-- StoryChat D1 Migration - Media objects
+-- Uploads to MEDIA_BUCKET, keyed by content hash, with the metadata readers need before the
+-- image loads. Objects nothing references are garbage-collected by the daily cron.
+
+CREATE TABLE IF NOT EXISTS media_objects (
+  key TEXT PRIMARY KEY, -- R2 key: media/<sha256>.<ext>
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT NOT NULL, -- computed by the uploader
+  uploaded_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  uploaded_at DATETIME DEFAULT CURRENT_TIMESTAMP, -- refreshed on re-upload; GC grace period starts here
+  FOREIGN KEY (uploaded_by) REFERENCES users(id)
+);
+
+CREATE INDEX idx_media_objects_uploaded ON media_objects(uploaded_at);
+
+-- Reference checks for garbage collection
+CREATE INDEX idx_stories_cover_image_key ON stories(cover_image_key) WHERE cover_image_key IS NOT NULL;
+CREATE INDEX idx_characters_avatar_key ON characters(avatar_key) WHERE avatar_key IS NOT NULL;
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import { chaptersAPI, creditsAPI, chaptersAPI } from '@/lib/api';
+import { ApiError, chaptersAPI, creditsAPI } from '@/lib/api';
 import { ChapterWithMessages, Message } from '@/types';
 import { ChatMessage, TypingIndicator, RevealSettings } from '@/components/ChatMessage';
 import { CreditWallet, UnlockModal } from '@/components/CreditWallet';
@@ -15,7 +15,7 @@ export default function ChapterReader() {
 
   const [chapter, setChapter] = useState<ChapterWithMessages | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [visibleCount, setVisibleCount] = useState(0);
+  const [lastVisibleIndex, setLastVisibleIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [credits, setCredits] = useState(50);
@@ -43,20 +43,20 @@ export default function ChapterReader() {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [visibleCount]);
+  }, [lastVisibleIndex]);
 
   // Auto-advance messages
   useEffect(() => {
     if (!chapter || !settings.autoPlay) return;
 
-    if (visibleCount < messages.length - 1) {
-      const currentMessage = messages[visibleCount];
+    if (lastVisibleIndex < messages.length - 1) {
+      const currentMessage = messages[lastVisibleIndex];
       const delay = (currentMessage.delaySeconds * 1000) / settings.delayMultiplier;
 
       setIsTyping(true);
 
       const timer = setTimeout(() => {
-        setVisibleCount(prev => prev + 1);
+        setLastVisibleIndex(prev => prev + 1);
         setIsTyping(false);
       }, delay + 500); // Add typing indicator time
 
@@ -64,11 +64,24 @@ export default function ChapterReader() {
     }
 
     // Chapter complete
-    if (visibleCount === messages.length - 1 && !isComplete) {
+    if (lastVisibleIndex === messages.length - 1 && !isComplete) {
       setIsComplete(true);
       markComplete();
     }
-  }, [visibleCount, messages, settings.autoPlay, chapter, isComplete, settings.delayMultiplier]);
+  }, [lastVisibleIndex, messages, settings.autoPlay, chapter, isComplete, settings.delayMultiplier]);
+
+  // Sync the reading position (debounced) so other devices resume here
+  useEffect(() => {
+    if (!chapter || lastVisibleIndex === 0) return;
+
+    const timer = setTimeout(() => {
+      chaptersAPI.saveProgress(chapterId, lastVisibleIndex).catch(err => {
+        console.error('Failed to save progress:', err);
+      });
+    }, 1500);
+
+    return () => clearTimeout(timer);
+  }, [lastVisibleIndex, chapter, chapterId]);
 
   const loadChapter = async () => {
     try {
@@ -77,13 +90,13 @@ export default function ChapterReader() {
       setChapter(data.chapter);
       setMessages(data.chapter.messages);
 
-      // Start from last read or beginning
-      const startIndex = data.chapter.progress.lastMessageRead || 0;
-      setVisibleCount(startIndex);
+      // Resume at the last message read (a 0-based index, same unit as lastVisibleIndex)
+      const startIndex = Math.min(data.chapter.progress.lastMessageRead || 0, Math.max(data.chapter.messages.length - 1, 0));
+      setLastVisibleIndex(startIndex);
     } catch (err: any) {
-      if (err.message?.includes('Chapter locked') || err.error?.includes('locked')) {
-        // Show unlock modal
-        setUnlockModal({ chapterId, chapterTitle: '', cost: 10 });
+      if (err instanceof ApiError && err.status === 402) {
+        // Show unlock modal at the server-resolved price
+        setUnlockModal({ chapterId, chapterTitle: '', cost: err.data.unlockCost });
       } else {
         setError(err.message || 'Failed to load chapter');
       }
@@ -117,13 +130,13 @@ export default function ChapterReader() {
   };
 
   const handleManualAdvance = () => {
-    if (visibleCount < messages.length - 1) {
-      setVisibleCount(prev => prev + 1);
+    if (lastVisibleIndex < messages.length - 1) {
+      setLastVisibleIndex(prev => prev + 1);
     }
   };
 
   const handleSkipToEnd = () => {
-    setVisibleCount(messages.length - 1);
+    setLastVisibleIndex(messages.length - 1);
     setSettings(prev => ({ ...prev, autoPlay: false }));
   };
 
@@ -187,7 +200,7 @@ export default function ChapterReader() {
             <ChatMessage
               key={msg.id}
               message={msg}
-              isVisible={index <= visibleCount}
+              isVisible={index <= lastVisibleIndex}
               index={index}
             />
           ))}
@@ -196,7 +209,7 @@ export default function ChapterReader() {
             <div className="message-bubble opacity-0 animate-fade-in">
               <TypingIndicator
                 colorTheme={
-                  messages[visibleCount + 1]?.colorTheme || '#6366f1'
+                  messages[lastVisibleIndex + 1]?.colorTheme || '#6366f1'
                 }
               />
             </div>
@@ -217,7 +230,7 @@ export default function ChapterReader() {
           <div className="max-w-2xl mx-auto px-4 py-3">
             <div className="flex items-center justify-between text-sm">
               <span className="text-muted-foreground">
-                {visibleCount + 1} / {messages.length} messages
+                {lastVisibleIndex + 1} / {messages.length} messages
               </span>
               <div className="flex items-center gap-4">
                 <button
@@ -229,7 +242,7 @@ export default function ChapterReader() {
                 <div className="w-32 h-1 bg-muted rounded-full overflow-hidden">
                   <div
                     className="h-full bg-primary rounded-full transition-all"
-                    style={{ width: `${((visibleCount + 1) / messages.length) * 100}%` }}
+                    style={{ width: `${((lastVisibleIndex + 1) / messages.length) * 100}%` }}
                   />
                 </div>
               </div>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { CreditBalance, CreditTransaction } from '@/types';
+import { CreditBalance, CreditPack, CreditTransaction } from '@/types';
 import { creditsAPI } from '@/lib/api';
 
 interface CreditWalletProps {
@@ -14,6 +14,9 @@ export function CreditWallet({ balance: initialBalance, onBalanceChange }: Credi
   const [balance, setBalance] = useState(initialBalance || 0);
   const [loading, setLoading] = useState(false);
   const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+  const [nextExpiry, setNextExpiry] = useState<CreditBalance['nextExpiry']>(null);
+  const [packs, setPacks] = useState<CreditPack[]>([]);
+  const [purchasing, setPurchasing] = useState<string | null>(null);
 
   const fetchBalance = async () => {
     try {
@@ -21,6 +24,7 @@ export function CreditWallet({ balance: initialBalance, onBalanceChange }: Credi
       const data = await creditsAPI.getBalance();
       setBalance(data.balance);
       setTransactions(data.recentTransactions);
+      setNextExpiry(data.nextExpiry);
       onBalanceChange?.(data.balance);
     } catch (error) {
       console.error('Failed to fetch balance:', error);
@@ -29,11 +33,42 @@ export function CreditWallet({ balance: initialBalance, onBalanceChange }: Credi
     }
   };
 
+  const fetchPacks = async () => {
+    try {
+      const data = await creditsAPI.getPacks();
+      setPacks(data.packs);
+    } catch (error) {
+      console.error('Failed to fetch credit packs:', error);
+    }
+  };
+
   const openDetails = async () => {
-    await fetchBalance();
+    await Promise.all([fetchBalance(), fetchPacks()]);
     setShowDetails(true);
   };
 
+  // Hand off to the payment provider; credits are added once its webhook confirms payment
+  const purchase = async (packId: string) => {
+    try {
+      setPurchasing(packId);
+      const { checkoutUrl } = await creditsAPI.checkout(packId);
+      window.location.href = checkoutUrl;
+    } catch (error) {
+      console.error('Failed to start checkout:', error);
+      setPurchasing(null);
+    }
+  };
+
+  const formatPrice = (pack: CreditPack) =>
+    new Intl.NumberFormat(undefined, { style: 'currency', currency: pack.currency }).format(pack.priceCents / 100);
+
+  // "20 credits expire in 3 days"
+  const formatExpiry = (expiry: NonNullable<CreditBalance['nextExpiry']>) => {
+    const days = Math.ceil((new Date(expiry.expiresAt).getTime() - Date.now()) / 86_400_000);
+    const when = days <= 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+    return `${expiry.credits} credits expire ${when}`;
+  };
+
   const formatAmount = (amount: number) => {
     if (amount > 0) return `+${amount}`;
     return `${amount}`;
@@ -49,6 +84,12 @@ export function CreditWallet({ balance: initialBalance, onBalanceChange }: Credi
         return '🎁';
       case 'ADMIN_ADD':
         return '👑';
+      case 'REFUND':
+        return '↩️';
+      case 'CHARGEBACK':
+        return '⚠️';
+      case 'EXPIRE':
+        return '⌛';
       default:
         return '📝';
     }
@@ -75,20 +116,23 @@ export function CreditWallet({ balance: initialBalance, onBalanceChange }: Credi
               <div className="text-5xl mb-2">🪙</div>
               <div className="text-4xl font-bold">{balance}</div>
               <div className="text-muted-foreground">credits available</div>
+              {nextExpiry && (
+                <div className="mt-2 inline-block text-xs px-3 py-1 rounded-full bg-yellow-500/20 text-yellow-300">
+                  ⏳ {formatExpiry(nextExpiry)}
+                </div>
+              )}
             </div>
 
             {/* Quick buy */}
             <div className="p-4 border-b border-border">
               <p className="text-sm font-medium mb-3">Quick Purchase</p>
               <div className="grid grid-cols-3 gap-2">
-                {[
-                  { amount: 100, price: '$0.99', popular: false },
-                  { amount: 500, price: '$4.49', popular: true },
-                  { amount: 1000, price: '$8.99', popular: false },
-                ].map((pack) => (
+                {packs.map((pack) => (
                   <button
-                    key={pack.amount}
-                    className={`relative p-3 rounded-xl border transition-all ${
+                    key={pack.id}
+                    onClick={() => purchase(pack.id)}
+                    disabled={purchasing !== null}
+                    className={`relative p-3 rounded-xl border transition-all disabled:opacity-50 ${
                       pack.popular
                         ? 'border-primary bg-primary/10'
                         : 'border-border hover:border-primary/50'
@@ -99,8 +143,10 @@ export function CreditWallet({ balance: initialBalance, onBalanceChange }: Credi
                         Best Value
                       </span>
                     )}
-                    <div className="text-2xl mb-1">{pack.amount}</div>
-                    <div className="text-lg font-bold text-primary">{pack.price}</div>
+                    <div className="text-2xl mb-1">{pack.credits}</div>
+                    <div className="text-lg font-bold text-primary">
+                      {purchasing === pack.id ? '...' : formatPrice(pack)}
+                    </div>
                   </button>
                 ))}
               </div>
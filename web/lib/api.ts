@@ -5,8 +5,17 @@ import type {
   Story,
   Chapter,
   ChapterWithMessages,
+  ChapterProgress,
+  StoryProgress,
   CreditBalance,
+  CreditTransactionPage,
   UnlockResult,
+  BundlePrice,
+  StoryUnlockResult,
+  CreditPack,
+  CheckoutResult,
+  RedeemResult,
+  Subscription,
 } from '@/types';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'https://storychat-api.workers.dev';
@@ -19,6 +28,19 @@ function getToken(): string | null {
   return null;
 }
 
+// Error thrown for non-2xx responses; keeps the status and parsed body (e.g. 402 unlockCost)
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(message: string, status: number, data: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
 // API Request helper
 async function apiRequest<T>(
   endpoint: string,
@@ -44,7 +66,7 @@ async function apiRequest<T>(
   // Handle errors
   if (!response.ok) {
     const error = await response.json().catch(() => ({}));
-    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+    throw new ApiError(error.error || `HTTP ${response.status}: ${response.statusText}`, response.status, error);
   }
 
   return response.json();
@@ -86,6 +108,8 @@ export const storiesAPI = {
       totalReads: number;
       characters: Character[];
       chapters: Chapter[];
+      bundle: BundlePrice | null;
+      progress: StoryProgress | null;
     } }>(`/api/stories/${id}`),
 };
 
@@ -94,8 +118,14 @@ export const chaptersAPI = {
   getMessages: (id: string) =>
     apiRequest<{ chapter: ChapterWithMessages }>(`/api/chapters/${id}/messages`),
 
+  saveProgress: (id: string, lastMessageRead: number) =>
+    apiRequest<{ success: boolean; progress: ChapterProgress }>(`/api/chapters/${id}/progress`, {
+      method: 'PUT',
+      body: JSON.stringify({ lastMessageRead }),
+    }),
+
   complete: (id: string) =>
-    apiRequest<{ success: boolean }>(`/api/chapters/${id}/complete`, {
+    apiRequest<{ success: boolean; progress: ChapterProgress; nextChapterId: string | null }>(`/api/chapters/${id}/complete`, {
       method: 'POST',
     }),
 };
@@ -110,6 +140,50 @@ export const creditsAPI = {
       method: 'POST',
       body: JSON.stringify({ chapterId, idempotencyKey: `unlock_${Date.now()}` }),
     }),
+
+  unlockStory: (storyId: string) =>
+    apiRequest<StoryUnlockResult>('/api/credits/unlock-story', {
+      method: 'POST',
+      body: JSON.stringify({ storyId, idempotencyKey: `unlock_story_${Date.now()}` }),
+    }),
+
+  getTransactions: (params?: { cursor?: string; limit?: number; type?: string; from?: string; to?: string }) => {
+    const query = new URLSearchParams(
+      Object.entries(params || {}).filter(([, v]) => v !== undefined).map(([k, v]) => [k, String(v)])
+    ).toString();
+    return apiRequest<CreditTransactionPage>(`/api/credits/transactions${query ? `?${query}` : ''}`);
+  },
+
+  redeem: (code: string, storyId?: string) =>
+    apiRequest<RedeemResult>('/api/credits/redeem', {
+      method: 'POST',
+      body: JSON.stringify({ code, storyId }),
+    }),
+
+  getPacks: () =>
+    apiRequest<{ packs: CreditPack[] }>('/api/credits/packs'),
+
+  checkout: (packId: string) =>
+    apiRequest<CheckoutResult>('/api/credits/checkout', {
+      method: 'POST',
+      body: JSON.stringify({ packId }),
+    }),
+};
+
+// Subscription API
+export const subscriptionAPI = {
+  get: () =>
+    apiRequest<{ subscription: Subscription | null }>('/api/subscription'),
+
+  cancel: () =>
+    apiRequest<{ success: boolean; subscription: Subscription }>('/api/subscription/cancel', {
+      method: 'POST',
+    }),
+
+  resume: () =>
+    apiRequest<{ success: boolean; subscription: Subscription }>('/api/subscription/resume', {
+      method: 'POST',
+    }),
 };
 
 // Export complete API object
@@ -118,4 +192,5 @@ export const api = {
   stories: storiesAPI,
   chapters: chaptersAPI,
   credits: creditsAPI,
+  subscription: subscriptionAPI,
 };
@@ -8,6 +8,18 @@ export interface User {
   subscriptionTier: 'free' | 'premium';
 }
 
+export interface Subscription {
+  tier: 'premium';
+  status: 'ACTIVE' | 'CANCELLED' | 'LAPSED';
+  renews: boolean;
+  startedAt: string;
+  currentPeriodStart: string;
+  currentPeriodEnd: string;
+  monthlyStipend: number;
+  cancelledAt: string | null;
+  lapsedAt: string | null;
+}
+
 export interface Story {
   id: string;
   title: string;
@@ -34,7 +46,9 @@ export interface Chapter {
   chapterNumber: number;
   title: string;
   isFree: boolean;
-  unlockCost: number;
+  unlockCost: number; // effective price after story overrides, sales and tier discounts
+  baseUnlockCost?: number;
+  discounts?: PriceDiscount[];
   totalReads: number;
   unlocked: boolean;
   unlockedAt?: string;
@@ -42,6 +56,13 @@ export interface Chapter {
   lastMessageRead: number;
 }
 
+export interface PriceDiscount {
+  source: 'sale' | 'tier';
+  percent: number;
+  label?: string | null;
+  endsAt?: string;
+}
+
 export interface Message {
   id: string;
   sequenceIndex: number;
@@ -57,19 +78,34 @@ export interface Message {
 export interface Media {
   url: string;
   type: 'image' | 'video';
+  width?: number | null;
+  height?: number | null;
+  blurhash?: string | null; // placeholder to show while the image loads
 }
 
 export interface ChapterWithMessages {
   id: string;
+  storyId: string;
   chapterNumber: number;
+  title: string;
   storyTitle: string;
   totalReads: number;
   messages: Message[];
   messageCount: number;
-  progress: {
-    lastMessageRead: number;
-    completed: boolean;
-  };
+  progress: ChapterProgress;
+}
+
+export interface ChapterProgress {
+  lastMessageRead: number; // 0-based index of the last message shown (not a count); n-1 once finished
+  completed: boolean;
+  completedAt?: string | null;
+  updatedAt?: string | null;
+}
+
+export interface StoryProgress {
+  completedChapters: number;
+  resumeChapterId: string | null;
+  lastMessageRead: number;
 }
 
 export interface CreditTransaction {
@@ -83,8 +119,16 @@ export interface CreditTransaction {
   timestamp: string;
 }
 
+export interface CreditTransactionPage {
+  transactions: CreditTransaction[];
+  nextCursor: string | null;
+  limit: number;
+}
+
 export interface CreditBalance {
   balance: number;
+  breakdown: { purchased: number; promotional: number };
+  nextExpiry: { credits: number; expiresAt: string } | null;
   recentTransactions: CreditTransaction[];
 }
 
@@ -94,3 +138,45 @@ export interface UnlockResult {
   totalCost: number;
   creditsRemaining: number;
 }
+
+export interface RedeemResult {
+  success: boolean;
+  message: string;
+  transactionId: string;
+  creditsAdded: number;
+  creditsRemaining: number;
+  replayed: boolean;
+  storyId?: string | null;
+}
+
+export interface CreditPack {
+  id: string;
+  name: string;
+  credits: number;
+  priceCents: number;
+  currency: string;
+  popular: boolean;
+}
+
+export interface CheckoutResult {
+  purchaseId: string;
+  checkoutUrl: string;
+  status: 'PENDING';
+}
+
+export interface BundlePrice {
+  chapterCount: number;
+  subtotal: number;
+  discountPercent: number;
+  cost: number;
+}
+
+export interface StoryUnlockResult {
+  success: boolean;
+  storyId: string;
+  chapterIds: string[];
+  subtotal?: number;
+  discountPercent?: number;
+  creditsUsed: number;
+  creditsRemaining: number;
+}